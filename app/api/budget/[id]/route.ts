@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { monthlyBudget } from '@/lib/db/schema';
 import { updateBudgetSchema } from '@/lib/validations/budget-schema';
-import { eq } from 'drizzle-orm';
+import { resolveBudgetActivation } from '@/lib/db/budgets';
+import { eq, and } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
 
 // GET /api/budget/[id] - Get specific budget entry
@@ -75,8 +76,32 @@ export async function PUT(
     const body = await request.json();
     const validatedData = updateBudgetSchema.parse(body);
 
+    const currentBudget = await db
+      .select()
+      .from(monthlyBudget)
+      .where(eq(monthlyBudget.id, budgetId))
+      .limit(1);
+
+    if (currentBudget.length === 0) {
+      return NextResponse.json(
+        { error: 'Budget not found' },
+        { status: 404 }
+      );
+    }
+
+    // Moving the effective date can schedule a budget or bring a scheduled
+    // one into effect now
+    const activation =
+      validatedData.effectiveDate !== undefined || validatedData.isActive !== undefined
+        ? resolveBudgetActivation(
+          validatedData.effectiveDate ?? currentBudget[0].effectiveDate,
+          validatedData.isActive ??
+            (currentBudget[0].isActive || currentBudget[0].isScheduled)
+        )
+        : null;
+
     // If this budget is being set as active, deactivate all other budgets
-    if (validatedData.isActive === true) {
+    if (activation?.isActive && !currentBudget[0].isActive) {
       await db
         .update(monthlyBudget)
         .set({ isActive: false, updatedAt: new Date() })
@@ -88,8 +113,10 @@ export async function PUT(
       updateData.monthlyAllocation = validatedData.monthlyAllocation.toString();
     if (validatedData.effectiveDate !== undefined)
       updateData.effectiveDate = validatedData.effectiveDate;
-    if (validatedData.isActive !== undefined)
-      updateData.isActive = validatedData.isActive;
+    if (activation) {
+      updateData.isActive = activation.isActive;
+      updateData.isScheduled = activation.isScheduled;
+    }
     if (validatedData.notes !== undefined) updateData.notes = validatedData.notes;
     updateData.updatedAt = new Date();
 
@@ -122,7 +149,7 @@ export async function PUT(
   }
 }
 
-// DELETE /api/budget/[id] - Deactivate budget entry
+// DELETE /api/budget/[id] - Deactivate budget entry (or cancel a scheduled one)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -144,6 +171,21 @@ export async function DELETE(
       );
     }
 
+    // A scheduled budget never took effect, so it leaves no history behind
+    const cancelledBudget = await db
+      .delete(monthlyBudget)
+      .where(
+        and(eq(monthlyBudget.id, budgetId), eq(monthlyBudget.isScheduled, true))
+      )
+      .returning();
+
+    if (cancelledBudget.length > 0) {
+      return NextResponse.json(
+        { message: 'Scheduled budget cancelled', budget: cancelledBudget[0] },
+        { status: 200 }
+      );
+    }
+
     const updatedBudget = await db
       .update(monthlyBudget)
       .set({ isActive: false, updatedAt: new Date() })
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loans, windfalls } from '@/lib/db/schema';
+import { getStrategyTuning } from '@/lib/db/strategy-settings';
+import { getRateChanges } from '@/lib/db/rate-changes';
+import { calculateRequiredBudget } from '@/lib/loan-calculations';
+import { toDateString } from '@/lib/payment-schedule';
+import { and, eq, gte, asc } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/budget/goal-seek - Find the smallest monthly budget that pays off the debts by a target date
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const targetDate = searchParams.get('target_date');
+    const loanIdParam = searchParams.get('loan_id');
+
+    if (!targetDate || !z.string().date().safeParse(targetDate).success) {
+      return NextResponse.json(
+        { error: 'Target date must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const loanId = loanIdParam ? parseInt(loanIdParam) : undefined;
+    if (loanId !== undefined && isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const allLoans = await db
+      .select()
+      .from(loans)
+      .where(and(eq(loans.isActive, true), eq(loans.direction, 'borrowed')));
+    if (loanId !== undefined && !allLoans.some((loan) => loan.id === loanId)) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Search with the active strategy, falling back to avalanche when none is set
+    const strategyType = allLoans[0]?.strategyType ?? 'avalanche';
+
+    const today = toDateString(new Date());
+    const plannedWindfalls = await db
+      .select()
+      .from(windfalls)
+      .where(gte(windfalls.windfallDate, today))
+      .orderBy(asc(windfalls.windfallDate));
+
+    const strategyTuning = await getStrategyTuning();
+    const rateChanges = await getRateChanges(allLoans.map((loan) => loan.id));
+
+    const result = calculateRequiredBudget(
+      allLoans,
+      strategyType,
+      { targetDate, loanId },
+      { startDate: today, windfalls: plannedWindfalls, strategyTuning, rateChanges }
+    );
+
+    return NextResponse.json(
+      { ...result, strategyType },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error seeking budget goal:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate required budget' },
+      { status: 500 }
+    );
+  }
+}
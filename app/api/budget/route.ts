@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { monthlyBudget } from '@/lib/db/schema';
 import { createBudgetSchema } from '@/lib/validations/budget-schema';
+import {
+  getActiveBudget,
+  getScheduledBudgets,
+  resolveBudgetActivation,
+} from '@/lib/db/budgets';
 import { eq, desc } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
 
@@ -16,22 +21,24 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const activeOnly = searchParams.get('active') === 'true';
+    const scheduledOnly = searchParams.get('scheduled') === 'true';
 
     if (activeOnly) {
-      const activeBudget = await db
-        .select()
-        .from(monthlyBudget)
-        .where(eq(monthlyBudget.isActive, true))
-        .limit(1);
+      const activeBudget = await getActiveBudget();
 
-      if (activeBudget.length === 0) {
+      if (!activeBudget) {
         return NextResponse.json(
           { error: 'No active budget found' },
           { status: 404 }
         );
       }
 
-      return NextResponse.json(activeBudget[0], { status: 200 });
+      return NextResponse.json(activeBudget, { status: 200 });
+    }
+
+    if (scheduledOnly) {
+      const scheduledBudgets = await getScheduledBudgets();
+      return NextResponse.json(scheduledBudgets, { status: 200 });
     }
 
     // Get all budgets, ordered by created date (newest first)
@@ -62,8 +69,14 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createBudgetSchema.parse(body);
 
+    // A future-dated budget is scheduled rather than made active now
+    const activation = resolveBudgetActivation(
+      validatedData.effectiveDate,
+      validatedData.isActive ?? false
+    );
+
     // If this budget is being set as active, deactivate all other budgets
-    if (validatedData.isActive) {
+    if (activation.isActive) {
       await db
         .update(monthlyBudget)
         .set({ isActive: false, updatedAt: new Date() })
@@ -75,7 +88,7 @@ export async function POST(request: NextRequest) {
       .values({
         monthlyAllocation: validatedData.monthlyAllocation,
         effectiveDate: validatedData.effectiveDate,
-        isActive: validatedData.isActive ?? false,
+        ...activation,
         notes: validatedData.notes ?? null,
       })
       .returning();
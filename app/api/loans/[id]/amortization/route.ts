@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loans } from '@/lib/db/schema';
+import { getRateChanges } from '@/lib/db/rate-changes';
+import { buildAmortizationSchedule } from '@/lib/loan-calculations';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/loans/[id]/amortization - Get per-installment amortization table
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const loanId = parseInt(id, 10);
+
+    if (isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    // basis=original rebuilds the table from origination instead of today
+    const basis =
+      request.nextUrl.searchParams.get('basis') === 'original'
+        ? 'original'
+        : 'current';
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const rateChanges = await getRateChanges([loanId]);
+    const rows = buildAmortizationSchedule(loan[0], basis, rateChanges);
+
+    return NextResponse.json(
+      {
+        loanId,
+        basis,
+        paymentFrequency: loan[0].paymentFrequency,
+        rows,
+        totals: {
+          interest: Math.round(rows.reduce((sum, row) => sum + row.interest, 0) * 100) / 100,
+          principal: Math.round(rows.reduce((sum, row) => sum + row.principal, 0) * 100) / 100,
+          payments: Math.round(rows.reduce((sum, row) => sum + row.payment, 0) * 100) / 100,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error building amortization table:', error);
+    return NextResponse.json(
+      { error: 'Failed to build amortization table' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loanCharges, loans } from '@/lib/db/schema';
+import { updateChargeSchema } from '@/lib/validations/charge-schema';
+import { adjustLoanCharges } from '@/lib/db/charges';
+import { recordBalanceEvent } from '@/lib/db/balance-events';
+import { syncLoanSchedule } from '@/lib/db/schedules';
+import { eq, and } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// PUT /api/loans/[id]/charges/[chargeId] - Update a charge
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; chargeId: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id, chargeId: chargeIdParam } = await params;
+    const loanId = parseInt(id, 10);
+    const chargeId = parseInt(chargeIdParam, 10);
+
+    if (isNaN(loanId) || isNaN(chargeId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan or charge ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateChargeSchema.parse(body);
+
+    const currentCharge = await db
+      .select()
+      .from(loanCharges)
+      .where(and(eq(loanCharges.id, chargeId), eq(loanCharges.loanId, loanId)))
+      .limit(1);
+
+    if (currentCharge.length === 0) {
+      return NextResponse.json(
+        { error: 'Charge not found' },
+        { status: 404 }
+      );
+    }
+
+    // Purchases bear interest and fees don't, so one can't become the other
+    if (
+      validatedData.chargeType !== undefined &&
+      (validatedData.chargeType === 'purchase') !==
+        (currentCharge[0].chargeType === 'purchase')
+    ) {
+      return NextResponse.json(
+        { error: 'A purchase cannot be changed into a fee or back' },
+        { status: 400 }
+      );
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (validatedData.chargeType !== undefined)
+      updateData.chargeType = validatedData.chargeType;
+    if (validatedData.amount !== undefined)
+      updateData.amount = validatedData.amount.toString();
+    if (validatedData.chargeDate !== undefined)
+      updateData.chargeDate = validatedData.chargeDate;
+    if (validatedData.description !== undefined)
+      updateData.description = validatedData.description;
+    updateData.updatedAt = new Date();
+
+    // Move the loan balance by the change in amount along with the update
+    const delta =
+      validatedData.amount !== undefined
+        ? validatedData.amount - Number(currentCharge[0].amount)
+        : 0;
+
+    const updateCharge = db
+      .update(loanCharges)
+      .set(updateData)
+      .where(eq(loanCharges.id, chargeId))
+      .returning();
+
+    if (Math.abs(delta) < 0.005) {
+      const updatedCharge = await updateCharge;
+      return NextResponse.json(updatedCharge[0], { status: 200 });
+    }
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+
+    const [updatedCharge] = await db.batch([
+      updateCharge,
+      adjustLoanCharges(loanId, delta, currentCharge[0].chargeType),
+      recordBalanceEvent({
+        loanId,
+        eventType: delta > 0 ? 'charge' : 'charge_reversal',
+        amount: delta,
+        balanceAfter: Number(loan[0].currentBalance) + delta,
+        chargeId,
+        description: 'Charge amount edited',
+      }),
+    ]);
+
+    // The next statement's minimum moves with a purchase's amount
+    if (currentCharge[0].chargeType === 'purchase') {
+      const [updatedLoan] = await db
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+      await syncLoanSchedule(updatedLoan);
+    }
+
+    return NextResponse.json(updatedCharge[0], { status: 200 });
+  } catch (error) {
+    console.error('Error updating charge:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update charge' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/loans/[id]/charges/[chargeId] - Remove a charge
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; chargeId: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id, chargeId: chargeIdParam } = await params;
+    const loanId = parseInt(id, 10);
+    const chargeId = parseInt(chargeIdParam, 10);
+
+    if (isNaN(loanId) || isNaN(chargeId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan or charge ID' },
+        { status: 400 }
+      );
+    }
+
+    const currentCharge = await db
+      .select()
+      .from(loanCharges)
+      .where(and(eq(loanCharges.id, chargeId), eq(loanCharges.loanId, loanId)))
+      .limit(1);
+
+    if (currentCharge.length === 0) {
+      return NextResponse.json(
+        { error: 'Charge not found' },
+        { status: 404 }
+      );
+    }
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+    const amount = Number(currentCharge[0].amount);
+
+    await db.batch([
+      db.delete(loanCharges).where(eq(loanCharges.id, chargeId)),
+      adjustLoanCharges(loanId, -amount, currentCharge[0].chargeType),
+      recordBalanceEvent({
+        loanId,
+        eventType: 'charge_reversal',
+        amount: -amount,
+        balanceAfter: Number(loan[0].currentBalance) - amount,
+        description: `Charge of ${currentCharge[0].chargeDate} deleted`,
+      }),
+    ]);
+
+    // The next statement's minimum shrinks when a purchase is removed
+    if (currentCharge[0].chargeType === 'purchase') {
+      const [updatedLoan] = await db
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+      await syncLoanSchedule(updatedLoan);
+    }
+
+    return NextResponse.json(
+      { message: 'Charge deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting charge:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete charge' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loans } from '@/lib/db/schema';
+import { accrueLoanPenalties } from '@/lib/db/charges';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// POST /api/loans/[id]/charges/accrue - Accrue penalties on overdue installments
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const loanId = parseInt(id, 10);
+
+    if (isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await accrueLoanPenalties(loan[0]);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('Error accruing penalties:', error);
+    return NextResponse.json(
+      { error: 'Failed to accrue penalties' },
+      { status: 500 }
+    );
+  }
+}
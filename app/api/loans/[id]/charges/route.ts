@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loanCharges, loans } from '@/lib/db/schema';
+import { createChargeSchema } from '@/lib/validations/charge-schema';
+import { adjustLoanCharges, buildReopenAccountQueries } from '@/lib/db/charges';
+import { syncLoanSchedule } from '@/lib/db/schedules';
+import { lastInsertedId, recordBalanceEvent } from '@/lib/db/balance-events';
+import { eq, desc } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/loans/[id]/charges - Get all charges recorded against a loan
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const loanId = parseInt(id, 10);
+
+    if (isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const charges = await db
+      .select()
+      .from(loanCharges)
+      .where(eq(loanCharges.loanId, loanId))
+      .orderBy(desc(loanCharges.chargeDate));
+
+    return NextResponse.json(charges, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching charges:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch charges' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/loans/[id]/charges - Record a fee, penalty or other charge
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const loanId = parseInt(id, 10);
+
+    if (isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createChargeSchema.parse(body);
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (validatedData.chargeType === 'purchase') {
+      if (loan[0].accountType !== 'revolving') {
+        return NextResponse.json(
+          { error: 'Purchases can only be charged to a revolving account' },
+          { status: 400 }
+        );
+      }
+      const availableCredit =
+        loan[0].creditLimit !== null
+          ? Number(loan[0].creditLimit) - Number(loan[0].currentBalance)
+          : Infinity;
+      if (validatedData.amount > availableCredit + 0.005) {
+        return NextResponse.json(
+          { error: 'Purchase exceeds the available credit' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Insert the charge and add it to the loan balance atomically
+    const [newCharge] = await db.batch([
+      db
+        .insert(loanCharges)
+        .values({
+          loanId,
+          chargeType: validatedData.chargeType,
+          amount: validatedData.amount,
+          chargeDate: validatedData.chargeDate,
+          description: validatedData.description ?? null,
+        })
+        .returning(),
+      adjustLoanCharges(loanId, validatedData.amount, validatedData.chargeType),
+      recordBalanceEvent({
+        loanId,
+        eventType: 'charge',
+        amount: validatedData.amount,
+        balanceAfter: Number(loan[0].currentBalance) + validatedData.amount,
+        eventDate: validatedData.chargeDate,
+        chargeId: lastInsertedId('loan_charges'),
+        description: validatedData.description ?? null,
+      }),
+      // A paid-off card that is used again is billed again
+      ...(validatedData.chargeType === 'purchase'
+        ? buildReopenAccountQueries(loan[0], validatedData.chargeDate)
+        : []),
+    ]);
+
+    // The next statement's minimum grows with a purchase
+    if (validatedData.chargeType === 'purchase') {
+      const [updatedLoan] = await db
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+      await syncLoanSchedule(updatedLoan);
+    }
+
+    return NextResponse.json(newCharge[0], { status: 201 });
+  } catch (error) {
+    console.error('Error creating charge:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create charge' },
+      { status: 500 }
+    );
+  }
+}
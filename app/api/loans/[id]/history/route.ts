@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { balanceEvents, loans } from '@/lib/db/schema';
+import { eq, and, gte, lte, asc, desc } from 'drizzle-orm';
+import { z } from 'zod';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/loans/[id]/history - Get the balance ledger for a loan
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const loanId = parseInt(id, 10);
+
+    if (isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    // as_of answers "what was the balance on this date?"
+    const asOf = searchParams.get('as_of');
+
+    const isDate = (value: string | null) =>
+      value === null || z.string().date().safeParse(value).success;
+    if (![startDate, endDate, asOf].every(isDate)) {
+      return NextResponse.json(
+        { error: 'Invalid date format' },
+        { status: 400 }
+      );
+    }
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const conditions = [eq(balanceEvents.loanId, loanId)];
+    if (startDate) {
+      conditions.push(gte(balanceEvents.eventDate, startDate));
+    }
+    if (endDate) {
+      conditions.push(lte(balanceEvents.eventDate, endDate));
+    }
+
+    const events = await db
+      .select()
+      .from(balanceEvents)
+      .where(and(...conditions))
+      .orderBy(asc(balanceEvents.eventDate), asc(balanceEvents.id));
+
+    let balanceAsOf: number | null = null;
+    if (asOf) {
+      const lastEvent = await db
+        .select()
+        .from(balanceEvents)
+        .where(
+          and(eq(balanceEvents.loanId, loanId), lte(balanceEvents.eventDate, asOf))
+        )
+        .orderBy(desc(balanceEvents.eventDate), desc(balanceEvents.id))
+        .limit(1);
+      balanceAsOf =
+        lastEvent.length > 0 ? Number(lastEvent[0].balanceAfter) : null;
+    }
+
+    return NextResponse.json(
+      {
+        loanId,
+        currentBalance: Number(loan[0].currentBalance),
+        asOf,
+        balanceAsOf,
+        events,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching balance history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch balance history' },
+      { status: 500 }
+    );
+  }
+}
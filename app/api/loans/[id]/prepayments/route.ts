@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loans } from '@/lib/db/schema';
+import { prepaymentSchema } from '@/lib/validations/prepayment-schema';
+import { buildPrepaymentQueries } from '@/lib/db/prepayments';
+import { calculatePaymentSplit } from '@/lib/db/payments';
+import { toDateString } from '@/lib/payment-schedule';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// POST /api/loans/[id]/prepayments - Pay a lump sum off the loan principal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const loanId = parseInt(id, 10);
+
+    if (isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = prepaymentSchema.parse(body);
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Like an installment payment, the prepayment settles fees and the
+    // interest accrued since the last payment before it reaches principal
+    const prepaymentDate = validatedData.prepaymentDate ?? toDateString(new Date());
+    const split = await calculatePaymentSplit(
+      loan[0],
+      { dueDate: loan[0].nextPaymentDueDate },
+      validatedData.amount,
+      prepaymentDate
+    );
+    if (split.principalPaid <= 0) {
+      return NextResponse.json(
+        { error: 'Prepayment does not cover the fees and interest due' },
+        { status: 400 }
+      );
+    }
+    if (split.feesPaid + split.principalPaid > Number(loan[0].currentBalance) + 0.005) {
+      return NextResponse.json(
+        { error: 'Prepayment exceeds the outstanding balance' },
+        { status: 400 }
+      );
+    }
+
+    const queries = await buildPrepaymentQueries(loan[0], split, {
+      amount: validatedData.amount,
+      prepaymentDate,
+      mode: validatedData.mode,
+      note: validatedData.note,
+    });
+
+    // Update the loan, its ledger and its unpaid installments together
+    const [, updatedLoan] = await db.batch(queries);
+
+    return NextResponse.json(updatedLoan[0], { status: 201 });
+  } catch (error) {
+    console.error('Error recording prepayment:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to record prepayment' },
+      { status: 500 }
+    );
+  }
+}
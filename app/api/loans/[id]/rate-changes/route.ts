@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loans } from '@/lib/db/schema';
+import { getRateChanges } from '@/lib/db/rate-changes';
+import { getUpcomingRateChanges } from '@/lib/loan-calculations';
+import { toDateString } from '@/lib/payment-schedule';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/loans/[id]/rate-changes - Get a loan's rate schedule
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const loanId = parseInt(id, 10);
+
+    if (isNaN(loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const loan = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const rateChanges = await getRateChanges([loanId]);
+
+    return NextResponse.json(
+      {
+        rateChanges,
+        upcoming: getUpcomingRateChanges(loan, rateChanges, toDateString(new Date())),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching rate changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rate changes' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { loans } from '@/lib/db/schema';
-import { updateLoanSchema } from '@/lib/validations/loan-schema';
+import {
+  minimumPaymentTermsSchema,
+  updateLoanSchema,
+} from '@/lib/validations/loan-schema';
 import { eq } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+import { syncLoanSchedule } from '@/lib/db/schedules';
+import { recordBalanceEvent } from '@/lib/db/balance-events';
+import { buildRateScheduleQueries } from '@/lib/db/rate-changes';
+
+// Fields that change when or how much each installment is due
+const SCHEDULE_FIELDS = [
+  'currentBalance',
+  'interestRate',
+  'interestMethod',
+  'loanTermMonths',
+  'startDate',
+  'paymentFrequency',
+  'minimumPayment',
+  'nextPaymentDueDate',
+  'paymentDueDay',
+  'accountType',
+  'statementDay',
+  'minimumPaymentRule',
+  'minimumPaymentPercent',
+  'minimumPaymentFloor',
+  'isActive',
+  'rateChanges',
+] as const;
+
+// Fields that decide how the minimum payment is billed
+const MINIMUM_PAYMENT_FIELDS = [
+  'accountType',
+  'minimumPaymentRule',
+  'minimumPaymentPercent',
+  'minimumPaymentFloor',
+] as const;
 
 // GET /api/loans/[id] - Get single loan details
 export async function GET(
@@ -74,6 +108,10 @@ export async function PUT(
     const updateData: Record<string, unknown> = {};
     if (validatedData.sourceType !== undefined)
       updateData.sourceType = validatedData.sourceType;
+    if (validatedData.accountType !== undefined)
+      updateData.accountType = validatedData.accountType;
+    if (validatedData.direction !== undefined)
+      updateData.direction = validatedData.direction;
     if (validatedData.lenderName !== undefined)
       updateData.lenderName = validatedData.lenderName;
     if (validatedData.accountNumber !== undefined)
@@ -84,6 +122,8 @@ export async function PUT(
       updateData.currentBalance = validatedData.currentBalance.toString();
     if (validatedData.interestRate !== undefined)
       updateData.interestRate = validatedData.interestRate.toString();
+    if (validatedData.interestMethod !== undefined)
+      updateData.interestMethod = validatedData.interestMethod;
     if (validatedData.loanTermMonths !== undefined)
       updateData.loanTermMonths = validatedData.loanTermMonths;
     if (validatedData.startDate !== undefined)
@@ -94,23 +134,118 @@ export async function PUT(
       updateData.minimumPayment = validatedData.minimumPayment.toString();
     if (validatedData.nextPaymentDueDate !== undefined)
       updateData.nextPaymentDueDate = validatedData.nextPaymentDueDate;
+    if (validatedData.paymentDueDay !== undefined)
+      updateData.paymentDueDay = validatedData.paymentDueDay;
+    if (validatedData.creditLimit !== undefined)
+      updateData.creditLimit =
+        validatedData.creditLimit === null
+          ? null
+          : validatedData.creditLimit.toString();
+    if (validatedData.statementDay !== undefined)
+      updateData.statementDay = validatedData.statementDay;
+    if (validatedData.minimumPaymentRule !== undefined)
+      updateData.minimumPaymentRule = validatedData.minimumPaymentRule;
+    if (validatedData.minimumPaymentPercent !== undefined)
+      updateData.minimumPaymentPercent =
+        validatedData.minimumPaymentPercent === null
+          ? null
+          : validatedData.minimumPaymentPercent.toString();
+    if (validatedData.minimumPaymentFloor !== undefined)
+      updateData.minimumPaymentFloor =
+        validatedData.minimumPaymentFloor === null
+          ? null
+          : validatedData.minimumPaymentFloor.toString();
     if (validatedData.paymentStatus !== undefined)
       updateData.paymentStatus = validatedData.paymentStatus;
     if (validatedData.strategyType !== undefined)
       updateData.strategyType = validatedData.strategyType;
     if (validatedData.priorityOrder !== undefined)
       updateData.priorityOrder = validatedData.priorityOrder;
+    if (validatedData.penaltyRuleType !== undefined)
+      updateData.penaltyRuleType = validatedData.penaltyRuleType;
+    if (validatedData.penaltyRate !== undefined)
+      updateData.penaltyRate =
+        validatedData.penaltyRate === null
+          ? null
+          : validatedData.penaltyRate.toString();
     if (validatedData.isActive !== undefined)
       updateData.isActive = validatedData.isActive;
 
     updateData.updatedAt = new Date();
 
-    const updatedLoan = await db
+    const existingLoan =
+      validatedData.currentBalance !== undefined ||
+      MINIMUM_PAYMENT_FIELDS.some((field) => validatedData[field] !== undefined)
+        ? await db.select().from(loans).where(eq(loans.id, loanId)).limit(1)
+        : [];
+
+    if (existingLoan.length > 0) {
+      const existing = existingLoan[0];
+
+      // Switching to revolving without naming a rule bills on the balance,
+      // as it does when a revolving account is created
+      if (
+        validatedData.accountType === 'revolving' &&
+        validatedData.minimumPaymentRule === undefined &&
+        existing.minimumPaymentRule === 'fixed'
+      ) {
+        updateData.minimumPaymentRule = 'percent_of_balance';
+      }
+
+      // The merged terms must still leave a balance-based minimum something to bill
+      minimumPaymentTermsSchema.parse({
+        accountType: validatedData.accountType ?? existing.accountType,
+        minimumPaymentRule:
+          updateData.minimumPaymentRule ?? existing.minimumPaymentRule,
+        minimumPaymentPercent:
+          validatedData.minimumPaymentPercent !== undefined
+            ? validatedData.minimumPaymentPercent
+            : existing.minimumPaymentPercent === null
+              ? null
+              : Number(existing.minimumPaymentPercent),
+        minimumPaymentFloor:
+          validatedData.minimumPaymentFloor !== undefined
+            ? validatedData.minimumPaymentFloor
+            : existing.minimumPaymentFloor === null
+              ? null
+              : Number(existing.minimumPaymentFloor),
+      });
+    }
+
+    const updateLoan = db
       .update(loans)
       .set(updateData)
       .where(eq(loans.id, loanId))
       .returning();
 
+    // A balance typed in by hand is recorded in the ledger as an adjustment
+    const balanceDelta =
+      existingLoan.length > 0 && validatedData.currentBalance !== undefined
+        ? validatedData.currentBalance - Number(existingLoan[0].currentBalance)
+        : 0;
+
+    // A rate schedule sent with the loan replaces the saved one
+    const rateScheduleQueries =
+      validatedData.rateChanges !== undefined
+        ? buildRateScheduleQueries(loanId, validatedData.rateChanges)
+        : [];
+
+    const [updatedLoan] = await db.batch([
+      updateLoan,
+      ...(Math.abs(balanceDelta) >= 0.005
+        ? [
+          recordBalanceEvent({
+            loanId,
+            eventType: 'manual_adjustment',
+            amount: balanceDelta,
+            balanceAfter: validatedData.currentBalance!,
+            description: 'Balance edited manually',
+          }),
+        ]
+        : []),
+      ...rateScheduleQueries,
+    ]);
+
     if (updatedLoan.length === 0) {
       return NextResponse.json(
         { error: 'Loan not found' },
@@ -118,6 +253,11 @@ export async function PUT(
       );
     }
 
+    // Regenerate the unpaid tail of the schedule if its inputs changed
+    if (SCHEDULE_FIELDS.some((field) => validatedData[field] !== undefined)) {
+      await syncLoanSchedule(updatedLoan[0]);
+    }
+
     return NextResponse.json(updatedLoan[0], { status: 200 });
   } catch (error) {
     console.error('Error updating loan:', error);
@@ -169,6 +309,9 @@ export async function DELETE(
       );
     }
 
+    // Inactive loans keep their history but no longer have pending installments
+    await syncLoanSchedule(updatedLoan[0]);
+
     return NextResponse.json(
       { message: 'Loan marked as inactive', loan: updatedLoan[0] },
       { status: 200 }
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loans } from '@/lib/db/schema';
+import {
+  buildConsolidationQueries,
+  isConsolidationConflict,
+} from '@/lib/db/consolidations';
+import { getRateChanges } from '@/lib/db/rate-changes';
+import { consolidationSchema } from '@/lib/validations/consolidation-schema';
+import { calculateConsolidation } from '@/lib/loan-calculations';
+import { and, eq, inArray } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// POST /api/loans/consolidate - Pay off several loans with one new loan
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = consolidationSchema.parse(body);
+    const sourceLoanIds = [...new Set(validatedData.sourceLoanIds)];
+
+    const sourceLoans = await db
+      .select()
+      .from(loans)
+      .where(
+        and(
+          inArray(loans.id, sourceLoanIds),
+          eq(loans.isActive, true),
+          eq(loans.direction, 'borrowed')
+        )
+      );
+
+    if (sourceLoans.length !== sourceLoanIds.length) {
+      return NextResponse.json(
+        { error: 'Some loans were not found, are already closed or are owed to you' },
+        { status: 400 }
+      );
+    }
+
+    const plan = calculateConsolidation(
+      sourceLoans,
+      {
+        ...validatedData,
+        principalAmount: validatedData.principalAmount ?? undefined,
+      },
+      await getRateChanges(sourceLoans.map((loan) => loan.id))
+    );
+
+    if (plan.cashOut < 0) {
+      return NextResponse.json(
+        { error: 'The new loan does not cover the payoff amount and fees' },
+        { status: 400 }
+      );
+    }
+
+    const [[newLoan]] = await db.batch(
+      buildConsolidationQueries(sourceLoans, validatedData, plan)
+    );
+
+    return NextResponse.json({ loan: newLoan, plan }, { status: 201 });
+  } catch (error) {
+    console.error('Error consolidating loans:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    if (isConsolidationConflict(error)) {
+      return NextResponse.json(
+        { error: 'Some loans were already consolidated' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to consolidate loans' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { loans, scenarios, scenarioLoans, windfalls } from '@/lib/db/schema';
+import { getActiveBudget, getScheduledBudgets } from '@/lib/db/budgets';
+import { getStrategyTuning } from '@/lib/db/strategy-settings';
+import { getRateChanges } from '@/lib/db/rate-changes';
+import { getScenarioRateChanges, projectScenario } from '@/lib/db/scenarios';
+import { compareStrategies, summarizeStrategyProjection } from '@/lib/loan-calculations';
+import { toDateString } from '@/lib/payment-schedule';
+import { and, eq, gte, asc } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/loans/projections/comparison - Compare every payment strategy and saved scenario side by side
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const allLoans = await db
+      .select()
+      .from(loans)
+      .where(and(eq(loans.isActive, true), eq(loans.direction, 'borrowed')));
+    const budget = await getActiveBudget();
+    const scheduledBudgets = await getScheduledBudgets();
+
+    const today = toDateString(new Date());
+    const plannedWindfalls = await db
+      .select()
+      .from(windfalls)
+      .where(gte(windfalls.windfallDate, today))
+      .orderBy(asc(windfalls.windfallDate));
+
+    const strategyTuning = await getStrategyTuning();
+    const rateChanges = await getRateChanges(allLoans.map((loan) => loan.id));
+
+    const strategies = compareStrategies(allLoans, budget, {
+      startDate: today,
+      windfalls: plannedWindfalls,
+      budgetChanges: scheduledBudgets,
+      strategyTuning,
+      rateChanges,
+    });
+
+    // Scenarios carry their own budget, so only the windfalls carry over.
+    // Copies follow the rate schedules copied in with them.
+    const allScenarios = await db.select().from(scenarios).orderBy(asc(scenarios.createdAt));
+    const allCopies = await db.select().from(scenarioLoans);
+    const scenarioRateChanges = await getScenarioRateChanges(allCopies);
+    const scenarioComparisons = allScenarios.map((scenario) => ({
+      ...summarizeStrategyProjection(
+        scenario.name,
+        scenario.strategyType,
+        projectScenario(
+          scenario,
+          allCopies.filter((copy) => copy.scenarioId === scenario.id),
+          {
+            startDate: today,
+            windfalls: plannedWindfalls,
+            strategyTuning,
+            rateChanges: scenarioRateChanges,
+          }
+        )
+      ),
+      scenarioId: scenario.id,
+    }));
+
+    return NextResponse.json(
+      {
+        strategies,
+        scenarios: scenarioComparisons,
+        liveStrategyType: allLoans[0]?.strategyType ?? null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error comparing strategies:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare strategies' },
+      { status: 500 }
+    );
+  }
+}
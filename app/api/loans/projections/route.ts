@@ -1,15 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { loans, monthlyBudget } from '@/lib/db/schema';
-import { calculateStrategyProjections, calculateMonthlyObligation } from '@/lib/loan-calculations';
-import { eq } from 'drizzle-orm';
+import { loans, windfalls } from '@/lib/db/schema';
+import { getActiveBudget, getScheduledBudgets } from '@/lib/db/budgets';
+import { getStrategyTuning } from '@/lib/db/strategy-settings';
+import { getRateChanges } from '@/lib/db/rate-changes';
+import {
+  calculateStrategyProjections,
+  calculateMonthlyObligation,
+  getUpcomingRateChanges,
+  type StrategyType,
+} from '@/lib/loan-calculations';
+import { toDateString } from '@/lib/payment-schedule';
+import { and, eq, gte, asc } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-// GET /api/loans/projections - Calculate payoff projections
+// GET /api/loans/projections - Calculate payoff projections (detail=timeline adds the month-by-month timeline)
 export async function GET(request: NextRequest) {
   try {
     await requireAuth(request);
@@ -19,32 +28,27 @@ export async function GET(request: NextRequest) {
 
   try {
     const searchParams = request.nextUrl.searchParams;
-    let strategyType = searchParams.get('strategy_type') as
-      | 'snowball'
-      | 'avalanche'
-      | 'custom'
-      | null;
+    let strategyType = searchParams.get('strategy_type') as StrategyType | null;
+    const includeTimeline = searchParams.get('detail') === 'timeline';
 
-    const allLoans = await db.select().from(loans).where(eq(loans.isActive, true));
+    const allLoans = await db
+      .select()
+      .from(loans)
+      .where(and(eq(loans.isActive, true), eq(loans.direction, 'borrowed')));
 
     // If no strategy type provided in query, try to get it from loans
     if (!strategyType && allLoans.length > 0) {
       // Get strategy type from first loan (all loans should have the same strategy)
       const firstLoanStrategy = allLoans[0].strategyType;
       if (firstLoanStrategy) {
-        strategyType = firstLoanStrategy as 'snowball' | 'avalanche' | 'custom';
+        strategyType = firstLoanStrategy;
       }
     }
 
-    // Get active budget
-    const activeBudget = await db
-      .select()
-      .from(monthlyBudget)
-      .where(eq(monthlyBudget.isActive, true))
-      .limit(1);
+    // Get active budget and the budget changes scheduled after it
+    const budget = await getActiveBudget();
+    const scheduledBudgets = await getScheduledBudgets();
 
-    const budget = activeBudget.length > 0 ? activeBudget[0] : null;
-    
     // Debug logging
     if (budget) {
       console.log('Projections API - Budget found:', {
@@ -55,15 +59,37 @@ export async function GET(request: NextRequest) {
       console.log('Projections API - No active budget found');
     }
 
+    // Planned windfalls still to come are paid into the strategy scenario
+    const today = toDateString(new Date());
+    const plannedWindfalls = await db
+      .select()
+      .from(windfalls)
+      .where(gte(windfalls.windfallDate, today))
+      .orderBy(asc(windfalls.windfallDate));
+
+    // Scheduled rate changes apply to both scenarios
+    const rateChanges = await getRateChanges(allLoans.map((loan) => loan.id));
+
     // Calculate minimum payment scenario
     const monthlyObligation = calculateMonthlyObligation(allLoans);
-    const minProjections = calculateStrategyProjections(allLoans, budget, null);
+    const minProjections = calculateStrategyProjections(allLoans, budget, null, {
+      startDate: today,
+      rateChanges,
+    });
 
     // Calculate strategy scenario
     const strategyProjections = calculateStrategyProjections(
       allLoans,
       budget,
-      strategyType
+      strategyType,
+      {
+        startDate: today,
+        windfalls: plannedWindfalls,
+        budgetChanges: scheduledBudgets,
+        strategyTuning: await getStrategyTuning(),
+        rateChanges,
+        includeTimeline,
+      }
     );
 
     return NextResponse.json(
@@ -76,9 +102,12 @@ export async function GET(request: NextRequest) {
           strategyType: strategyType || null,
           projections: strategyProjections,
         },
+        windfalls: plannedWindfalls,
+        scheduledBudgets,
+        rateChanges: getUpcomingRateChanges(allLoans, rateChanges, today),
         comparison: {
-          interestSavings: minProjections.totalInterest - strategyProjections.totalInterest,
-          timeSavings: minProjections.totalMonths - strategyProjections.totalMonths,
+          interestSavings: strategyProjections.interestSavings,
+          timeSavings: strategyProjections.timeSavings,
         },
       },
       { status: 200 }
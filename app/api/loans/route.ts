@@ -4,6 +4,10 @@ import { loans } from '@/lib/db/schema';
 import { createLoanSchema } from '@/lib/validations/loan-schema';
 import { eq, and } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+import { syncLoanSchedule } from '@/lib/db/schedules';
+import { lastInsertedId, recordBalanceEvent } from '@/lib/db/balance-events';
+import { buildRateScheduleQueries } from '@/lib/db/rate-changes';
+import { parseDateString } from '@/lib/payment-schedule';
 
 // GET /api/loans - Get all loans with optional filtering
 export async function GET(request: NextRequest) {
@@ -18,6 +22,7 @@ export async function GET(request: NextRequest) {
     const sourceType = searchParams.get('source_type');
     const status = searchParams.get('status');
     const isActive = searchParams.get('is_active');
+    const direction = searchParams.get('direction');
 
     const conditions = [];
     if (sourceType) {
@@ -29,6 +34,9 @@ export async function GET(request: NextRequest) {
     if (isActive !== null) {
       conditions.push(eq(loans.isActive, isActive === 'true'));
     }
+    if (direction) {
+      conditions.push(eq(loans.direction, direction as 'borrowed' | 'lent'));
+    }
 
     const query = conditions.length > 0
       ? db.select().from(loans).where(and(...conditions))
@@ -57,26 +65,58 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createLoanSchema.parse(body);
 
-    const newLoan = await db
-      .insert(loans)
-      .values({
-        sourceType: validatedData.sourceType,
-        lenderName: validatedData.lenderName,
-        accountNumber: validatedData.accountNumber ?? null,
-        principalAmount: validatedData.principalAmount,
-        currentBalance: validatedData.currentBalance,
-        interestRate: validatedData.interestRate,
-        loanTermMonths: validatedData.loanTermMonths,
-        startDate: validatedData.startDate,
-        paymentFrequency: validatedData.paymentFrequency,
-        minimumPayment: validatedData.minimumPayment,
-        nextPaymentDueDate: validatedData.nextPaymentDueDate,
-        paymentStatus: validatedData.paymentStatus,
-        strategyType: validatedData.strategyType ?? null,
-        priorityOrder: validatedData.priorityOrder ?? null,
-        isActive: validatedData.isActive ?? true,
-      })
-      .returning();
+    // Insert the loan, open its balance ledger and save its rate schedule together
+    const [newLoan] = await db.batch([
+      db
+        .insert(loans)
+        .values({
+          sourceType: validatedData.sourceType,
+          accountType: validatedData.accountType ?? 'installment',
+          direction: validatedData.direction ?? 'borrowed',
+          lenderName: validatedData.lenderName,
+          accountNumber: validatedData.accountNumber ?? null,
+          principalAmount: validatedData.principalAmount,
+          currentBalance: validatedData.currentBalance,
+          interestRate: validatedData.interestRate,
+          interestMethod: validatedData.interestMethod ?? 'diminishing',
+          loanTermMonths: validatedData.loanTermMonths,
+          startDate: validatedData.startDate,
+          paymentFrequency: validatedData.paymentFrequency,
+          minimumPayment: validatedData.minimumPayment,
+          nextPaymentDueDate: validatedData.nextPaymentDueDate,
+          paymentDueDay:
+            validatedData.paymentDueDay ??
+            parseDateString(validatedData.nextPaymentDueDate).getUTCDate(),
+          creditLimit: validatedData.creditLimit ?? null,
+          statementDay: validatedData.statementDay ?? null,
+          // Revolving accounts bill a percentage of the balance unless told otherwise
+          minimumPaymentRule:
+            validatedData.minimumPaymentRule ??
+            (validatedData.accountType === 'revolving' ? 'percent_of_balance' : 'fixed'),
+          minimumPaymentPercent: validatedData.minimumPaymentPercent ?? null,
+          minimumPaymentFloor: validatedData.minimumPaymentFloor ?? null,
+          paymentStatus: validatedData.paymentStatus,
+          strategyType: validatedData.strategyType ?? null,
+          priorityOrder: validatedData.priorityOrder ?? null,
+          penaltyRuleType: validatedData.penaltyRuleType ?? null,
+          penaltyRate: validatedData.penaltyRate ?? null,
+          isActive: validatedData.isActive ?? true,
+        })
+        .returning(),
+      recordBalanceEvent({
+        loanId: lastInsertedId('loans'),
+        eventType: 'opening_balance',
+        amount: validatedData.currentBalance,
+        balanceAfter: validatedData.currentBalance,
+      }),
+      ...buildRateScheduleQueries(
+        lastInsertedId('loans'),
+        validatedData.rateChanges ?? []
+      ),
+    ]);
+
+    // Materialize the loan's future installments
+    await syncLoanSchedule(newLoan[0]);
 
     return NextResponse.json(newLoan[0], { status: 201 });
   } catch (error) {
@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { loans, monthlyBudget } from '@/lib/db/schema';
+import { loans, strategyTypeEnum } from '@/lib/db/schema';
+import { getActiveBudget } from '@/lib/db/budgets';
+import { getStrategyTuning, saveStrategyTuning } from '@/lib/db/strategy-settings';
+import { getRateChanges } from '@/lib/db/rate-changes';
 import { applyStrategy } from '@/lib/strategy-helpers';
-import { calculateStrategyProjections } from '@/lib/loan-calculations';
-import { eq } from 'drizzle-orm';
+import {
+  applyRatesOn,
+  calculateStrategyProjections,
+  type StrategyType,
+} from '@/lib/loan-calculations';
+import { toDateString } from '@/lib/payment-schedule';
+import { and, eq } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
 
 // GET /api/loans/strategy - Get loans ordered by current strategy
@@ -16,13 +24,12 @@ export async function GET(request: NextRequest) {
 
   try {
     const searchParams = request.nextUrl.searchParams;
-    const strategyType = searchParams.get('strategy_type') as
-      | 'snowball'
-      | 'avalanche'
-      | 'custom'
-      | null;
+    const strategyType = searchParams.get('strategy_type') as StrategyType | null;
 
-    const allLoans = await db.select().from(loans).where(eq(loans.isActive, true));
+    const allLoans = await db
+      .select()
+      .from(loans)
+      .where(and(eq(loans.isActive, true), eq(loans.direction, 'borrowed')));
     
     // Determine the current strategy type from loans (use query param if provided, otherwise infer from loans)
     let currentStrategyType = strategyType;
@@ -31,28 +38,33 @@ export async function GET(request: NextRequest) {
       currentStrategyType = allLoans[0].strategyType;
     }
     
-    const sortedLoans = applyStrategy(allLoans, currentStrategyType);
+    const strategyTuning = await getStrategyTuning();
+    const rateChanges = await getRateChanges(allLoans.map((loan) => loan.id));
+    const today = toDateString(new Date());
+
+    // Rank loans on the rates they carry today
+    const sortedLoans = applyStrategy(
+      applyRatesOn(allLoans, rateChanges, today),
+      currentStrategyType,
+      strategyTuning
+    );
 
     // Get active budget
-    const activeBudget = await db
-      .select()
-      .from(monthlyBudget)
-      .where(eq(monthlyBudget.isActive, true))
-      .limit(1);
-
-    const budget = activeBudget.length > 0 ? activeBudget[0] : null;
+    const budget = await getActiveBudget();
 
     // Calculate projections
     const projections = calculateStrategyProjections(
       allLoans,
       budget,
-      currentStrategyType
+      currentStrategyType,
+      { startDate: today, strategyTuning, rateChanges }
     );
 
     return NextResponse.json(
       {
         loans: sortedLoans,
         strategyType: currentStrategyType,
+        strategyTuning,
         projections,
       },
       { status: 200 }
@@ -76,12 +88,12 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { strategyType, priorities } = body;
+    const { strategyType, priorities, snowflakeLoansToClose } = body;
 
     // Allow null for "No Strategy" option, or validate it's one of the valid types
     if (
       strategyType !== null &&
-      !['snowball', 'avalanche', 'custom'].includes(strategyType)
+      !strategyTypeEnum.enumValues.includes(strategyType)
     ) {
       return NextResponse.json(
         { error: 'Invalid strategy type' },
@@ -89,14 +101,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update all active loans with the new strategy type (can be null)
+    if (
+      snowflakeLoansToClose !== undefined &&
+      (!Number.isInteger(snowflakeLoansToClose) || snowflakeLoansToClose < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'Snowflake loans to close must be a whole number of at least 1' },
+        { status: 400 }
+      );
+    }
+
+    // Update all active debts with the new strategy type (can be null)
     await db
       .update(loans)
       .set({
-        strategyType: strategyType as 'snowball' | 'avalanche' | 'custom' | null,
+        strategyType: strategyType as StrategyType | null,
         updatedAt: new Date(),
       })
-      .where(eq(loans.isActive, true));
+      .where(and(eq(loans.isActive, true), eq(loans.direction, 'borrowed')));
 
     // If custom strategy, update priority orders
     if (strategyType === 'custom' && priorities && Array.isArray(priorities)) {
@@ -113,25 +135,31 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Snowflake switches from snowball to avalanche after this many payoffs
+    const strategyTuning =
+      snowflakeLoansToClose !== undefined
+        ? await saveStrategyTuning({ snowflakeLoansToClose })
+        : await getStrategyTuning();
+
     // Get updated loans and calculate projections
-    const allLoans = await db.select().from(loans).where(eq(loans.isActive, true));
-    const activeBudget = await db
+    const allLoans = await db
       .select()
-      .from(monthlyBudget)
-      .where(eq(monthlyBudget.isActive, true))
-      .limit(1);
-
-    const budget = activeBudget.length > 0 ? activeBudget[0] : null;
+      .from(loans)
+      .where(and(eq(loans.isActive, true), eq(loans.direction, 'borrowed')));
+    const budget = await getActiveBudget();
+    const rateChanges = await getRateChanges(allLoans.map((loan) => loan.id));
     const projections = calculateStrategyProjections(
       allLoans,
       budget,
-      strategyType
+      strategyType,
+      { strategyTuning, rateChanges }
     );
 
     return NextResponse.json(
       {
         message: 'Strategy updated successfully',
         strategyType,
+        strategyTuning,
         projections,
       },
       { status: 200 }
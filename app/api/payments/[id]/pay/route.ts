@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, runInBatch } from '@/lib/db';
+import { upcomingPayments, loans } from '@/lib/db/schema';
+import { recordPaymentSchema } from '@/lib/validations/payment-schema';
+import { buildInstallmentPaymentQueries } from '@/lib/db/payments';
+import { toDateString } from '@/lib/payment-schedule';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// POST /api/payments/[id]/pay - Record a full, partial or over-payment on an installment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const paymentId = parseInt(id, 10);
+
+    if (isNaN(paymentId)) {
+      return NextResponse.json(
+        { error: 'Invalid payment ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = recordPaymentSchema.parse(body);
+
+    const installment = await db
+      .select()
+      .from(upcomingPayments)
+      .where(eq(upcomingPayments.id, paymentId))
+      .limit(1);
+
+    if (installment.length === 0) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (installment[0].status === 'paid') {
+      return NextResponse.json(
+        { error: 'Payment is already paid' },
+        { status: 400 }
+      );
+    }
+
+    const loan = await db
+      .select()
+      .from(loans)
+      .where(eq(loans.id, installment[0].loanId))
+      .limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await buildInstallmentPaymentQueries(loan[0], installment[0], {
+      amount: validatedData.amount,
+      paidDate: validatedData.paidDate ?? toDateString(new Date()),
+      overpayment: validatedData.overpayment ?? 'principal',
+      carryOver: validatedData.carryOver ?? false,
+      method: validatedData.method,
+      referenceNumber: validatedData.referenceNumber,
+      note: validatedData.note,
+    });
+
+    // Post the payment to the installment, the loan and its ledger at once
+    await runInBatch(result.queries);
+
+    const updatedPayment = await db
+      .select()
+      .from(upcomingPayments)
+      .where(eq(upcomingPayments.id, paymentId))
+      .limit(1);
+
+    return NextResponse.json(
+      {
+        payment: updatedPayment[0],
+        advanced: result.advanced,
+        carriedOver: result.carriedOver,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to record payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,24 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { upcomingPayments, loans } from '@/lib/db/schema';
 import { updatePaymentSchema } from '@/lib/validations/payment-schema';
+import {
+  applySplitToLoan,
+  buildCarryOverReversalQueries,
+  calculatePaymentSplit,
+  getRecordedSplit,
+  hasPostedPayment,
+  recordPaymentEvents,
+  recordPaymentReversalEvent,
+  reversePaymentOnLoan,
+  updateLoanBalance,
+} from '@/lib/db/payments';
+import {
+  clearPaymentTransactions,
+  recordPaymentTransaction,
+} from '@/lib/db/payment-transactions';
+import { buildNextDueDateQueries } from '@/lib/db/schedules';
+import { toDateString } from '@/lib/payment-schedule';
+import type { BatchItem } from 'drizzle-orm/batch';
 import { eq } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
 
@@ -52,42 +70,106 @@ export async function PUT(
       updateData.paidDate = validatedData.paidDate;
     updateData.updatedAt = new Date();
 
-    const updatedPayment = await db
-      .update(upcomingPayments)
-      .set(updateData)
-      .where(eq(upcomingPayments.id, paymentId))
-      .returning();
+    const previous = currentPayment[0];
+    // Partial payments have already been posted to the loan too, even once
+    // the installment falls overdue
+    const wasPaid = hasPostedPayment(previous);
+    const willBePaid = ['paid', 'partial'].includes(
+      validatedData.status ?? previous.status
+    );
+    const amountPaid = validatedData.amountPaid ?? Number(previous.amountPaid ?? 0);
+    const paidDate =
+      validatedData.paidDate ?? previous.paidDate ?? toDateString(new Date());
+    const postsToLoan = willBePaid && amountPaid > 0;
+
+    // Marking a payment paid posts it to the loan; editing or un-paying a
+    // paid payment reverses what it did to the balance first
+    const affectsBalance = wasPaid
+      ? !willBePaid ||
+        amountPaid !== Number(previous.amountPaid ?? 0) ||
+        paidDate !== previous.paidDate
+      : postsToLoan;
 
-    // If payment status changed to paid, update loan balance
-    if (
-      validatedData.status === 'paid' &&
-      validatedData.amountPaid &&
-      currentPayment[0].status !== 'paid'
-    ) {
+    if (affectsBalance) {
       const loan = await db
         .select()
         .from(loans)
-        .where(eq(loans.id, currentPayment[0].loanId))
+        .where(eq(loans.id, previous.loanId))
         .limit(1);
 
       if (loan.length > 0) {
-        const currentBalance = Number(loan[0].currentBalance);
-        const newBalance = Math.max(0, currentBalance - validatedData.amountPaid);
-
-        // Check if loan is fully paid off
-        const isFullyPaid = newBalance <= 0.01;
-
-        await db
-          .update(loans)
-          .set({
-            currentBalance: newBalance,
-            isActive: !isFullyPaid, // Mark as inactive if fully paid
-            updatedAt: new Date(),
-          })
-          .where(eq(loans.id, currentPayment[0].loanId));
+        // Editing the payment directly replaces its transactions with a
+        // single one for the new amount
+        const ledgerEvents: BatchItem<'pg'>[] = wasPaid
+          ? [
+            recordPaymentReversalEvent(loan[0], previous, paymentId),
+            clearPaymentTransactions(paymentId),
+            ...(await buildCarryOverReversalQueries(previous)),
+          ]
+          : [];
+        let workingLoan = wasPaid
+          ? applySplitToLoan(loan[0], getRecordedSplit(previous), -1)
+          : loan[0];
+        let paymentData: Record<string, unknown> = {
+          ...updateData,
+          feesPaid: null,
+          interestPaid: null,
+          principalPaid: null,
+          carriedOverAmount: 0,
+        };
+
+        // Split into fees, interest and principal against the loan as it
+        // stood before this payment
+        if (postsToLoan) {
+          const split = await calculatePaymentSplit(
+            workingLoan,
+            previous,
+            amountPaid,
+            paidDate
+          );
+          ledgerEvents.push(
+            ...recordPaymentEvents(workingLoan, split, amountPaid, paymentId, paidDate),
+            recordPaymentTransaction({
+              paymentId,
+              amount: amountPaid,
+              transactionDate: paidDate,
+              split,
+            })
+          );
+          workingLoan = applySplitToLoan(workingLoan, split);
+          paymentData = { ...updateData, ...split, paidDate };
+        }
+
+        // Roll the loan's next due date past a paid installment, or back
+        // to an installment that was un-paid
+        const dueDateQueries = await buildNextDueDateQueries(workingLoan, {
+          paymentIds: [paymentId],
+          dueDate: previous.dueDate,
+          paid: postsToLoan,
+        });
+
+        // Update the payment, the loan and its ledger in one transaction
+        const [updatedPayment] = await db.batch([
+          db
+            .update(upcomingPayments)
+            .set(paymentData)
+            .where(eq(upcomingPayments.id, paymentId))
+            .returning(),
+          updateLoanBalance(loan[0], workingLoan),
+          ...ledgerEvents,
+          ...dueDateQueries,
+        ]);
+
+        return NextResponse.json(updatedPayment[0], { status: 200 });
       }
     }
 
+    const updatedPayment = await db
+      .update(upcomingPayments)
+      .set(updateData)
+      .where(eq(upcomingPayments.id, paymentId))
+      .returning();
+
     return NextResponse.json(updatedPayment[0], { status: 200 });
   } catch (error) {
     console.error('Error updating payment:', error);
@@ -126,18 +208,49 @@ export async function DELETE(
       );
     }
 
-    const deletedPayment = await db
-      .delete(upcomingPayments)
+    const currentPayment = await db
+      .select()
+      .from(upcomingPayments)
       .where(eq(upcomingPayments.id, paymentId))
-      .returning();
+      .limit(1);
 
-    if (deletedPayment.length === 0) {
+    if (currentPayment.length === 0) {
       return NextResponse.json(
         { error: 'Payment not found' },
         { status: 404 }
       );
     }
 
+    const deletePayment = db
+      .delete(upcomingPayments)
+      .where(eq(upcomingPayments.id, paymentId));
+
+    // Deleting a paid payment gives its amount back to the loan and takes
+    // any remainder it carried over back off the next installment
+    const loan = hasPostedPayment(currentPayment[0])
+      ? await db
+        .select()
+        .from(loans)
+        .where(eq(loans.id, currentPayment[0].loanId))
+        .limit(1)
+      : [];
+
+    if (loan.length > 0) {
+      await db.batch([
+        recordPaymentReversalEvent(
+          loan[0],
+          currentPayment[0],
+          null,
+          `Payment due ${currentPayment[0].dueDate} deleted`
+        ),
+        deletePayment,
+        reversePaymentOnLoan(loan[0], currentPayment[0]),
+        ...(await buildCarryOverReversalQueries(currentPayment[0])),
+      ]);
+    } else {
+      await deletePayment;
+    }
+
     return NextResponse.json(
       { message: 'Payment deleted successfully' },
       { status: 200 }
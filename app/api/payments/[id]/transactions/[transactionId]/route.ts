@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, runInBatch } from '@/lib/db';
+import { upcomingPayments, paymentTransactions, loans } from '@/lib/db/schema';
+import { buildTransactionReversalQueries } from '@/lib/db/payments';
+import { eq, and } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// DELETE /api/payments/[id]/transactions/[transactionId] - Remove a transaction and reverse it on the loan
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; transactionId: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id, transactionId: transactionIdParam } = await params;
+    const paymentId = parseInt(id, 10);
+    const transactionId = parseInt(transactionIdParam, 10);
+
+    if (isNaN(paymentId) || isNaN(transactionId)) {
+      return NextResponse.json(
+        { error: 'Invalid payment or transaction ID' },
+        { status: 400 }
+      );
+    }
+
+    const transaction = await db
+      .select()
+      .from(paymentTransactions)
+      .where(
+        and(
+          eq(paymentTransactions.id, transactionId),
+          eq(paymentTransactions.paymentId, paymentId)
+        )
+      )
+      .limit(1);
+
+    if (transaction.length === 0) {
+      return NextResponse.json(
+        { error: 'Transaction not found' },
+        { status: 404 }
+      );
+    }
+
+    const installment = await db
+      .select()
+      .from(upcomingPayments)
+      .where(eq(upcomingPayments.id, paymentId))
+      .limit(1);
+
+    const loan = await db
+      .select()
+      .from(loans)
+      .where(eq(loans.id, installment[0].loanId))
+      .limit(1);
+
+    if (loan.length === 0) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Remove the transaction, restore the loan balance and recompute the
+    // installment's paid total in one transaction
+    await runInBatch(
+      await buildTransactionReversalQueries(loan[0], installment[0], transaction[0])
+    );
+
+    return NextResponse.json(
+      { message: 'Transaction deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting payment transaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete payment transaction' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentTransactions } from '@/lib/db/payment-transactions';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/payments/[id]/transactions - Get the transactions paid against an installment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const paymentId = parseInt(id, 10);
+
+    if (isNaN(paymentId)) {
+      return NextResponse.json(
+        { error: 'Invalid payment ID' },
+        { status: 400 }
+      );
+    }
+
+    const transactions = await getPaymentTransactions(paymentId);
+
+    return NextResponse.json(transactions, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching payment transactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payment transactions' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { upcomingPayments, loans } from '@/lib/db/schema';
 import { createPaymentSchema } from '@/lib/validations/payment-schema';
+import {
+  applySplitToLoan,
+  calculatePaymentSplit,
+  postPaymentToLoan,
+  recordPaymentEvents,
+} from '@/lib/db/payments';
+import { lastInsertedId } from '@/lib/db/balance-events';
+import { recordPaymentTransaction } from '@/lib/db/payment-transactions';
+import { buildNextDueDateQueries } from '@/lib/db/schedules';
+import { toDateString } from '@/lib/payment-schedule';
 import { eq, and, gte, lte, desc, count } from 'drizzle-orm';
 import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
 
@@ -27,7 +37,7 @@ export async function GET(request: NextRequest) {
     const conditions = [];
     if (status) {
       conditions.push(
-        eq(upcomingPayments.status, status as 'pending' | 'paid' | 'overdue' | 'missed')
+        eq(upcomingPayments.status, status as 'pending' | 'paid' | 'overdue' | 'missed' | 'partial')
       );
     }
     if (startDate) {
@@ -119,20 +129,27 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createPaymentSchema.parse(body);
 
-    const newPayment = await db
-      .insert(upcomingPayments)
-      .values({
-        loanId: validatedData.loanId,
-        dueDate: validatedData.dueDate,
-        amountDue: validatedData.amountDue,
-        amountPaid: validatedData.amountPaid ?? null,
-        status: validatedData.status ?? 'pending',
-        paidDate: validatedData.paidDate ?? null,
-      })
-      .returning();
+    const paymentValues = {
+      loanId: validatedData.loanId,
+      dueDate: validatedData.dueDate,
+      amountDue: validatedData.amountDue,
+      amountPaid: validatedData.amountPaid ?? null,
+      status: validatedData.status ?? 'pending',
+      paidDate: validatedData.paidDate ?? null,
+    };
 
-    // If payment is marked as paid, update loan balance
-    if (validatedData.status === 'paid' && validatedData.amountPaid) {
+    if (validatedData.status === 'partial' && !validatedData.amountPaid) {
+      return NextResponse.json(
+        { error: 'A partial payment needs the amount paid' },
+        { status: 400 }
+      );
+    }
+
+    // If payment is marked as paid or part-paid, split it into fees,
+    // interest and principal and post it to the loan together with the insert
+    const isPosted =
+      validatedData.status === 'paid' || validatedData.status === 'partial';
+    if (isPosted && validatedData.amountPaid) {
       const loan = await db
         .select()
         .from(loans)
@@ -140,23 +157,54 @@ export async function POST(request: NextRequest) {
         .limit(1);
 
       if (loan.length > 0) {
-        const currentBalance = Number(loan[0].currentBalance);
-        const newBalance = Math.max(0, currentBalance - validatedData.amountPaid);
-
-        // Check if loan is fully paid off
-        const isFullyPaid = newBalance <= 0.01;
-
-        await db
-          .update(loans)
-          .set({
-            currentBalance: newBalance,
-            isActive: !isFullyPaid, // Mark as inactive if fully paid
-            updatedAt: new Date(),
-          })
-          .where(eq(loans.id, validatedData.loanId));
+        const paidDate = validatedData.paidDate ?? toDateString(new Date());
+        const split = await calculatePaymentSplit(
+          loan[0],
+          paymentValues,
+          validatedData.amountPaid,
+          paidDate
+        );
+
+        // A part-paid installment is still open, so the due date stays
+        const dueDateQueries =
+          validatedData.status === 'paid'
+            ? await buildNextDueDateQueries(applySplitToLoan(loan[0], split), {
+              dueDate: validatedData.dueDate,
+              paid: true,
+            })
+            : [];
+
+        const [newPayment] = await db.batch([
+          db
+            .insert(upcomingPayments)
+            .values({ ...paymentValues, ...split, paidDate })
+            .returning(),
+          postPaymentToLoan(loan[0], split),
+          ...recordPaymentEvents(
+            loan[0],
+            split,
+            validatedData.amountPaid,
+            lastInsertedId('upcoming_payments'),
+            paidDate
+          ),
+          recordPaymentTransaction({
+            paymentId: lastInsertedId('upcoming_payments'),
+            amount: validatedData.amountPaid,
+            transactionDate: paidDate,
+            split,
+          }),
+          ...dueDateQueries,
+        ]);
+
+        return NextResponse.json(newPayment[0], { status: 201 });
       }
     }
 
+    const newPayment = await db
+      .insert(upcomingPayments)
+      .values(paymentValues)
+      .returning();
+
     return NextResponse.json(newPayment[0], { status: 201 });
   } catch (error) {
     console.error('Error creating payment:', error);
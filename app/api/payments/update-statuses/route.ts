@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updatePaymentStatuses } from '@/lib/db/update-statuses';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+import { z } from 'zod';
+
+// POST /api/payments/update-statuses - Mark overdue/missed payments and refresh loan statuses
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const graceDaysParam = searchParams.get('grace_days');
+    const asOf = searchParams.get('as_of');
+    const graceDays =
+      graceDaysParam !== null ? parseInt(graceDaysParam, 10) : undefined;
+
+    if (graceDays !== undefined && (isNaN(graceDays) || graceDays < 0)) {
+      return NextResponse.json(
+        { error: 'Invalid grace period' },
+        { status: 400 }
+      );
+    }
+
+    if (asOf !== null && !z.string().date().safeParse(asOf).success) {
+      return NextResponse.json(
+        { error: 'Invalid date format' },
+        { status: 400 }
+      );
+    }
+
+    const result = await updatePaymentStatuses({
+      asOf: asOf ?? undefined,
+      graceDays,
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('Error updating payment statuses:', error);
+    return NextResponse.json(
+      { error: 'Failed to update payment statuses' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { scenarioLoanRateChanges, scenarioLoans } from '@/lib/db/schema';
+import { updateScenarioLoanSchema } from '@/lib/validations/scenario-schema';
+import { and, eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// PUT /api/scenarios/[id]/loans/[loanId] - Edit a scenario's copy of a loan
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; loanId: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id, loanId } = await params;
+    const scenarioId = parseInt(id, 10);
+    const scenarioLoanId = parseInt(loanId, 10);
+
+    if (isNaN(scenarioId) || isNaN(scenarioLoanId)) {
+      return NextResponse.json(
+        { error: 'Invalid scenario or loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateScenarioLoanSchema.parse(body);
+
+    const copy = await db
+      .select()
+      .from(scenarioLoans)
+      .where(
+        and(
+          eq(scenarioLoans.id, scenarioLoanId),
+          eq(scenarioLoans.scenarioId, scenarioId)
+        )
+      )
+      .limit(1);
+
+    if (copy.length === 0) {
+      return NextResponse.json(
+        { error: 'Scenario loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const updateLoan = db
+      .update(scenarioLoans)
+      .set({ ...validatedData, updatedAt: new Date() })
+      .where(eq(scenarioLoans.id, scenarioLoanId))
+      .returning();
+
+    // A what-if rate replaces the copied rate schedule for the whole term
+    const rateEdited =
+      validatedData.interestRate !== undefined &&
+      Math.abs(validatedData.interestRate - Number(copy[0].interestRate)) >= 0.005;
+    const [updatedLoan] = rateEdited
+      ? await db.batch([
+        updateLoan,
+        db
+          .delete(scenarioLoanRateChanges)
+          .where(eq(scenarioLoanRateChanges.scenarioLoanId, scenarioLoanId)),
+      ])
+      : [await updateLoan];
+
+    return NextResponse.json(updatedLoan[0], { status: 200 });
+  } catch (error) {
+    console.error('Error updating scenario loan:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update scenario loan' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/scenarios/[id]/loans/[loanId] - Drop a loan from the scenario
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; loanId: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id, loanId } = await params;
+    const scenarioId = parseInt(id, 10);
+    const scenarioLoanId = parseInt(loanId, 10);
+
+    if (isNaN(scenarioId) || isNaN(scenarioLoanId)) {
+      return NextResponse.json(
+        { error: 'Invalid scenario or loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const deletedLoan = await db
+      .delete(scenarioLoans)
+      .where(
+        and(
+          eq(scenarioLoans.id, scenarioLoanId),
+          eq(scenarioLoans.scenarioId, scenarioId)
+        )
+      )
+      .returning();
+
+    if (deletedLoan.length === 0) {
+      return NextResponse.json(
+        { error: 'Scenario loan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Scenario loan deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting scenario loan:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scenario loan' },
+      { status: 500 }
+    );
+  }
+}
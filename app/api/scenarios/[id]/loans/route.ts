@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { scenarios, scenarioLoans } from '@/lib/db/schema';
+import { createScenarioLoanSchema } from '@/lib/validations/scenario-schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// POST /api/scenarios/[id]/loans - Add a loan that only exists in the scenario
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const scenarioId = parseInt(id, 10);
+
+    if (isNaN(scenarioId)) {
+      return NextResponse.json(
+        { error: 'Invalid scenario ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createScenarioLoanSchema.parse(body);
+
+    const [scenario] = await db
+      .select()
+      .from(scenarios)
+      .where(eq(scenarios.id, scenarioId));
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    const newLoan = await db
+      .insert(scenarioLoans)
+      .values({
+        scenarioId,
+        lenderName: validatedData.lenderName,
+        sourceType: validatedData.sourceType,
+        accountType: validatedData.accountType ?? 'installment',
+        principalAmount: validatedData.principalAmount,
+        currentBalance: validatedData.currentBalance,
+        interestRate: validatedData.interestRate,
+        interestMethod: validatedData.interestMethod ?? 'diminishing',
+        loanTermMonths: validatedData.loanTermMonths,
+        startDate: validatedData.startDate,
+        paymentFrequency: validatedData.paymentFrequency,
+        minimumPayment: validatedData.minimumPayment,
+        minimumPaymentRule:
+          validatedData.minimumPaymentRule ??
+          (validatedData.accountType === 'revolving' ? 'percent_of_balance' : 'fixed'),
+        minimumPaymentPercent: validatedData.minimumPaymentPercent ?? null,
+        minimumPaymentFloor: validatedData.minimumPaymentFloor ?? null,
+        priorityOrder: validatedData.priorityOrder ?? null,
+      })
+      .returning();
+
+    return NextResponse.json(newLoan[0], { status: 201 });
+  } catch (error) {
+    console.error('Error adding scenario loan:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to add scenario loan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { scenarios } from '@/lib/db/schema';
+import {
+  getScenarioLoans,
+  getScenarioRateChanges,
+  projectScenario,
+} from '@/lib/db/scenarios';
+import { updateScenarioSchema } from '@/lib/validations/scenario-schema';
+import { toDateString } from '@/lib/payment-schedule';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/scenarios/[id] - Get a scenario with its loans and projection
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const scenarioId = parseInt(id, 10);
+
+    if (isNaN(scenarioId)) {
+      return NextResponse.json(
+        { error: 'Invalid scenario ID' },
+        { status: 400 }
+      );
+    }
+
+    const [scenario] = await db
+      .select()
+      .from(scenarios)
+      .where(eq(scenarios.id, scenarioId));
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    const copies = await getScenarioLoans(scenarioId);
+    const projections = projectScenario(scenario, copies, {
+      startDate: toDateString(new Date()),
+      rateChanges: await getScenarioRateChanges(copies),
+    });
+
+    return NextResponse.json(
+      { ...scenario, loans: copies, projections },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/scenarios/[id] - Update a scenario's name, budget or strategy
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const scenarioId = parseInt(id, 10);
+
+    if (isNaN(scenarioId)) {
+      return NextResponse.json(
+        { error: 'Invalid scenario ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateScenarioSchema.parse(body);
+
+    const updateData: Record<string, unknown> = {};
+    if (validatedData.name !== undefined) updateData.name = validatedData.name;
+    if (validatedData.description !== undefined)
+      updateData.description = validatedData.description;
+    if (validatedData.strategyType !== undefined)
+      updateData.strategyType = validatedData.strategyType;
+    if (validatedData.monthlyAllocation !== undefined)
+      updateData.monthlyAllocation =
+        validatedData.monthlyAllocation?.toString() ?? null;
+    updateData.updatedAt = new Date();
+
+    const updatedScenario = await db
+      .update(scenarios)
+      .set(updateData)
+      .where(eq(scenarios.id, scenarioId))
+      .returning();
+
+    if (updatedScenario.length === 0) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updatedScenario[0], { status: 200 });
+  } catch (error) {
+    console.error('Error updating scenario:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/scenarios/[id] - Discard a scenario and its loan copies
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const scenarioId = parseInt(id, 10);
+
+    if (isNaN(scenarioId)) {
+      return NextResponse.json(
+        { error: 'Invalid scenario ID' },
+        { status: 400 }
+      );
+    }
+
+    const deletedScenario = await db
+      .delete(scenarios)
+      .where(eq(scenarios.id, scenarioId))
+      .returning();
+
+    if (deletedScenario.length === 0) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Scenario deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scenario' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { scenarios, scenarioLoans } from '@/lib/db/schema';
+import { createScenario } from '@/lib/db/scenarios';
+import { createScenarioSchema } from '@/lib/validations/scenario-schema';
+import { asc } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/scenarios - Get saved what-if scenarios with their loan copies
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const allScenarios = await db
+      .select()
+      .from(scenarios)
+      .orderBy(asc(scenarios.createdAt));
+    const allCopies = await db
+      .select()
+      .from(scenarioLoans)
+      .orderBy(asc(scenarioLoans.id));
+
+    return NextResponse.json(
+      allScenarios.map((scenario) => ({
+        ...scenario,
+        loans: allCopies.filter((copy) => copy.scenarioId === scenario.id),
+      })),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching scenarios:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scenarios' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/scenarios - Save a scenario copied from the live plan
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = createScenarioSchema.parse(body);
+
+    const scenario = await createScenario(validatedData);
+
+    return NextResponse.json(scenario, { status: 201 });
+  } catch (error) {
+    console.error('Error creating scenario:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create scenario' },
+      { status: 500 }
+    );
+  }
+}
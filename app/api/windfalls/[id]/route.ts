@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { windfalls } from '@/lib/db/schema';
+import { updateWindfallSchema } from '@/lib/validations/windfall-schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// PUT /api/windfalls/[id] - Update a planned windfall
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const windfallId = parseInt(id, 10);
+
+    if (isNaN(windfallId)) {
+      return NextResponse.json(
+        { error: 'Invalid windfall ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateWindfallSchema.parse(body);
+
+    const updateData: Record<string, unknown> = {};
+    if (validatedData.description !== undefined)
+      updateData.description = validatedData.description;
+    if (validatedData.amount !== undefined)
+      updateData.amount = validatedData.amount.toString();
+    if (validatedData.windfallDate !== undefined)
+      updateData.windfallDate = validatedData.windfallDate;
+    updateData.updatedAt = new Date();
+
+    const updatedWindfall = await db
+      .update(windfalls)
+      .set(updateData)
+      .where(eq(windfalls.id, windfallId))
+      .returning();
+
+    if (updatedWindfall.length === 0) {
+      return NextResponse.json(
+        { error: 'Windfall not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updatedWindfall[0], { status: 200 });
+  } catch (error) {
+    console.error('Error updating windfall:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update windfall' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/windfalls/[id] - Remove a planned windfall
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { id } = await params;
+    const windfallId = parseInt(id, 10);
+
+    if (isNaN(windfallId)) {
+      return NextResponse.json(
+        { error: 'Invalid windfall ID' },
+        { status: 400 }
+      );
+    }
+
+    const deletedWindfall = await db
+      .delete(windfalls)
+      .where(eq(windfalls.id, windfallId))
+      .returning();
+
+    if (deletedWindfall.length === 0) {
+      return NextResponse.json(
+        { error: 'Windfall not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Windfall deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting windfall:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete windfall' },
+      { status: 500 }
+    );
+  }
+}
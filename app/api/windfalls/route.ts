@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { windfalls } from '@/lib/db/schema';
+import { createWindfallSchema } from '@/lib/validations/windfall-schema';
+import { asc } from 'drizzle-orm';
+import { requireAuth, unauthorizedResponse } from '@/lib/api-auth';
+
+// GET /api/windfalls - Get planned windfalls, soonest first
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const allWindfalls = await db
+      .select()
+      .from(windfalls)
+      .orderBy(asc(windfalls.windfallDate));
+
+    return NextResponse.json(allWindfalls, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching windfalls:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch windfalls' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/windfalls - Plan a one-off lump sum
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth(request);
+  } catch {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = createWindfallSchema.parse(body);
+
+    const newWindfall = await db
+      .insert(windfalls)
+      .values({
+        description: validatedData.description,
+        amount: validatedData.amount,
+        windfallDate: validatedData.windfallDate,
+      })
+      .returning();
+
+    return NextResponse.json(newWindfall[0], { status: 201 });
+  } catch (error) {
+    console.error('Error creating windfall:', error);
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create windfall' },
+      { status: 500 }
+    );
+  }
+}
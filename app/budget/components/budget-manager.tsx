@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { createBudgetSchema, type BudgetInput } from '@/lib/validations/budget-schema';
@@ -22,16 +22,32 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import type { MonthlyBudget } from '@/lib/db/schema';
-import { calculateMonthlyObligation } from '@/lib/loan-calculations';
+import {
+  calculateMonthlyObligation,
+  isReceivable,
+  STRATEGY_LABELS,
+  type BudgetGoalResult,
+  type StrategyType,
+} from '@/lib/loan-calculations';
 import type { Loan } from '@/lib/db/schema';
+import { Trash2 } from 'lucide-react';
 
 // Query functions
 async function fetchBudget(): Promise<MonthlyBudget | null> {
@@ -40,15 +56,36 @@ async function fetchBudget(): Promise<MonthlyBudget | null> {
   return response.json();
 }
 
+async function fetchScheduledBudgets(): Promise<MonthlyBudget[]> {
+  const response = await fetch('/api/budget?scheduled=true');
+  if (!response.ok) throw new Error('Failed to fetch scheduled budgets');
+  return response.json();
+}
+
 async function fetchLoans(): Promise<Loan[]> {
   const response = await fetch('/api/loans?is_active=true');
   if (!response.ok) throw new Error('Failed to fetch loans');
   return response.json();
 }
 
+type GoalSeekResponse = Omit<BudgetGoalResult, 'payoffDate'> & {
+  payoffDate: string | null;
+  strategyType: StrategyType;
+};
+
+async function fetchGoalSeek(targetDate: string, loanId: string): Promise<GoalSeekResponse> {
+  const params = new URLSearchParams({ target_date: targetDate });
+  if (loanId !== 'all') params.set('loan_id', loanId);
+  const response = await fetch(`/api/budget/goal-seek?${params}`);
+  if (!response.ok) throw new Error('Failed to calculate required budget');
+  return response.json();
+}
+
 export function BudgetManager() {
   const queryClient = useQueryClient();
   const [showForm, setShowForm] = useState(false);
+  const [goalDate, setGoalDate] = useState('');
+  const [goalLoanId, setGoalLoanId] = useState('all');
 
   // Fetch budget and loans with TanStack Query
   const { data: budget = null, isLoading: budgetLoading } = useQuery({
@@ -57,12 +94,26 @@ export function BudgetManager() {
     staleTime: 60 * 1000, // 1 minute
   });
 
+  const { data: scheduledBudgets = [] } = useQuery({
+    queryKey: ['budget', { scheduled: true }],
+    queryFn: fetchScheduledBudgets,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
   const { data: loans = [], isLoading: loansLoading } = useQuery({
     queryKey: ['loans', { isActive: true }],
     queryFn: fetchLoans,
     staleTime: 60 * 1000, // 1 minute
   });
 
+  // Goal seek reruns the payoff simulation, so only ask once a date is picked
+  const { data: goal, isFetching: goalLoading } = useQuery({
+    queryKey: ['budget', 'goal-seek', { targetDate: goalDate, loanId: goalLoanId }],
+    queryFn: () => fetchGoalSeek(goalDate, goalLoanId),
+    enabled: goalDate !== '',
+    staleTime: 60 * 1000, // 1 minute
+  });
+
   const loading = budgetLoading || loansLoading;
 
   const form = useForm<BudgetInput>({
@@ -75,6 +126,9 @@ export function BudgetManager() {
     },
   });
 
+  const effectiveDate = useWatch({ control: form.control, name: 'effectiveDate' });
+  const isFutureDated = effectiveDate > new Date().toISOString().split('T')[0];
+
   // Reset form when budget data changes
   useEffect(() => {
     if (budget) {
@@ -87,6 +141,25 @@ export function BudgetManager() {
     }
   }, [budget, form]);
 
+  // Every budget change affects what the strategy can spend
+  function invalidateBudgetQueries() {
+    // Invalidate and refetch budget (this will match ['budget', { active: true }] and all budget queries)
+    queryClient.invalidateQueries({ queryKey: ['budget'] });
+    // Invalidate loan queries (for summary cards and calculations)
+    queryClient.invalidateQueries({ queryKey: ['loans'] });
+    // Invalidate all payment queries (this will match ['payments'], ['payments', { status: 'overdue' }], etc.)
+    queryClient.invalidateQueries({ queryKey: ['payments'] });
+    // Invalidate computed extra allocations (depends on loans and budget)
+    queryClient.invalidateQueries({ queryKey: ['payments', 'extra-allocations'] });
+    // Invalidate strategy queries (depends on loans and budget)
+    queryClient.invalidateQueries({ queryKey: ['loans', 'strategy'] });
+    // Invalidate all projection queries (this will match ['loans', 'projections', { strategyType }] for any strategyType)
+    queryClient.invalidateQueries({ queryKey: ['loans', 'projections'] });
+
+    // Dispatch custom event for backward compatibility with other components
+    window.dispatchEvent(new CustomEvent('budget-updated'));
+  }
+
   // Save budget mutation
   const saveBudgetMutation = useMutation({
     mutationFn: async (data: BudgetInput) => {
@@ -106,23 +179,8 @@ export function BudgetManager() {
       return response.json();
     },
     onSuccess: () => {
-      // Invalidate and refetch budget (this will match ['budget', { active: true }] and all budget queries)
-      queryClient.invalidateQueries({ queryKey: ['budget'] });
-      // Invalidate loan queries (for summary cards and calculations)
-      queryClient.invalidateQueries({ queryKey: ['loans'] });
-      // Invalidate all payment queries (this will match ['payments'], ['payments', { status: 'overdue' }], etc.)
-      queryClient.invalidateQueries({ queryKey: ['payments'] });
-      // Invalidate computed extra allocations (depends on loans and budget)
-      queryClient.invalidateQueries({ queryKey: ['payments', 'extra-allocations'] });
-      // Invalidate strategy queries (depends on loans and budget)
-      queryClient.invalidateQueries({ queryKey: ['loans', 'strategy'] });
-      // Invalidate all projection queries (this will match ['loans', 'projections', { strategyType }] for any strategyType)
-      queryClient.invalidateQueries({ queryKey: ['loans', 'projections'] });
-      
+      invalidateBudgetQueries();
       setShowForm(false);
-      
-      // Dispatch custom event for backward compatibility with other components
-      window.dispatchEvent(new CustomEvent('budget-updated'));
     },
     onError: (error: Error) => {
       console.error('Error saving budget:', error);
@@ -130,6 +188,20 @@ export function BudgetManager() {
     },
   });
 
+  // Cancel a scheduled budget before it takes effect
+  const cancelScheduledMutation = useMutation({
+    mutationFn: async (budgetId: number) => {
+      const response = await fetch(`/api/budget/${budgetId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to cancel scheduled budget');
+    },
+    onSuccess: invalidateBudgetQueries,
+    onError: (error: Error) => {
+      alert(error.message);
+    },
+  });
+
   async function onSubmit(data: BudgetInput) {
     saveBudgetMutation.mutate(data);
   }
@@ -228,6 +300,119 @@ export function BudgetManager() {
           </div>
         )}
 
+        {scheduledBudgets.length > 0 && (
+          <div className="border-t pt-4">
+            <div className="text-sm text-muted-foreground mb-2">
+              Scheduled Changes
+            </div>
+            <div className="space-y-2">
+              {scheduledBudgets.map((scheduled) => (
+                <div
+                  key={scheduled.id}
+                  className="flex items-center justify-between text-sm p-2 bg-muted rounded"
+                >
+                  <div>
+                    <span className="font-medium">
+                      {formatCurrency(Number(scheduled.monthlyAllocation))}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {' '}from {new Date(scheduled.effectiveDate).toLocaleDateString()}
+                    </span>
+                    {scheduled.notes && (
+                      <div className="text-xs text-muted-foreground">
+                        {scheduled.notes}
+                      </div>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => cancelScheduledMutation.mutate(scheduled.id)}
+                    disabled={cancelScheduledMutation.isPending}
+                    title="Cancel scheduled budget"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {loans.length > 0 && (
+          <div className="border-t pt-4 space-y-3">
+            <div className="text-sm text-muted-foreground">Budget Goal</div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="goal-date">Debt-free by</Label>
+                <Input
+                  id="goal-date"
+                  type="date"
+                  value={goalDate}
+                  onChange={(e) => setGoalDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>For</Label>
+                <Select value={goalLoanId} onValueChange={setGoalLoanId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All loans</SelectItem>
+                    {loans.filter((loan) => !isReceivable(loan)).map((loan) => (
+                      <SelectItem key={loan.id} value={String(loan.id)}>
+                        {loan.lenderName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {goalDate !== '' && goalLoading && (
+              <div className="h-12 bg-muted animate-pulse rounded" />
+            )}
+
+            {goal && !goalLoading && (
+              goal.requiredAllocation === null ? (
+                <div className="text-sm text-red-600 bg-red-50 p-2 rounded">
+                  This target can&apos;t be reached with any monthly budget.
+                  Try a later date.
+                </div>
+              ) : (
+                <div className="text-sm p-2 bg-muted rounded space-y-1">
+                  <div>
+                    Required monthly budget:{' '}
+                    <span className="font-semibold">
+                      {formatCurrency(goal.requiredAllocation)}
+                    </span>
+                  </div>
+                  {budget && (
+                    <div
+                      className={
+                        goal.requiredAllocation > Number(budget.monthlyAllocation)
+                          ? 'text-red-600'
+                          : 'text-green-600'
+                      }
+                    >
+                      {goal.requiredAllocation > Number(budget.monthlyAllocation)
+                        ? `${formatCurrency(goal.requiredAllocation - Number(budget.monthlyAllocation))} more than your current budget`
+                        : 'Your current budget already meets this goal'}
+                    </div>
+                  )}
+                  {goal.payoffDate && (
+                    <div className="text-xs text-muted-foreground">
+                      Paid off by {new Date(goal.payoffDate).toLocaleDateString()} using
+                      the {STRATEGY_LABELS[goal.strategyType]} strategy
+                    </div>
+                  )}
+                </div>
+              )
+            )}
+          </div>
+        )}
+
         <Dialog open={showForm} onOpenChange={setShowForm}>
           <DialogContent>
             <DialogHeader>
@@ -270,6 +455,12 @@ export function BudgetManager() {
                       <FormControl>
                         <Input type="date" {...field} />
                       </FormControl>
+                      {isFutureDated && (
+                        <FormDescription>
+                          This budget is scheduled and takes over on its
+                          effective date.
+                        </FormDescription>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
@@ -297,7 +488,9 @@ export function BudgetManager() {
                   >
                     Cancel
                   </Button>
-                  <Button type="submit">Save Budget</Button>
+                  <Button type="submit">
+                    {isFutureDated ? 'Schedule Budget' : 'Save Budget'}
+                  </Button>
                 </DialogFooter>
               </form>
             </Form>
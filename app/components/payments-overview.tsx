@@ -98,7 +98,7 @@ export function PaymentsOverview() {
       // Get strategy type from first loan (assuming all loans have same strategy)
       const strategyType =
         loans.length > 0 && loans[0].strategyType
-          ? (loans[0].strategyType as 'snowball' | 'avalanche' | 'custom')
+          ? loans[0].strategyType
           : null;
 
       // Calculate extra payment allocations
@@ -0,0 +1,173 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { useQueries } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  calculateMonthlyPaymentAmount,
+  isReceivable,
+} from '@/lib/loan-calculations';
+import { addDays, daysBetween, toDateString } from '@/lib/payment-schedule';
+import type { Loan, UpcomingPayment } from '@/lib/db/schema';
+import { AlertTriangle } from 'lucide-react';
+
+interface PaymentWithLoan {
+  payment: UpcomingPayment;
+  loan: Loan;
+}
+
+// Days ahead to list expected inflows for
+const INFLOW_WINDOW_DAYS = 30;
+
+// Query functions
+async function fetchLoans(): Promise<Loan[]> {
+  const res = await fetch('/api/loans?is_active=true');
+  if (!res.ok) throw new Error('Failed to fetch loans');
+  return res.json();
+}
+
+async function fetchOverduePayments(): Promise<PaymentWithLoan[]> {
+  const res = await fetch('/api/payments?status=overdue');
+  if (!res.ok) return [];
+  return res.json();
+}
+
+async function fetchPendingPayments(
+  startDate: string,
+  endDate: string
+): Promise<PaymentWithLoan[]> {
+  const res = await fetch(
+    `/api/payments?status=pending&start_date=${startDate}&end_date=${endDate}`
+  );
+  if (!res.ok) return [];
+  return res.json();
+}
+
+export function ReceivablesOverview() {
+  const today = toDateString(new Date());
+  const windowEnd = addDays(today, INFLOW_WINDOW_DAYS);
+
+  const [loansQuery, overdueQuery, pendingQuery] = useQueries({
+    queries: [
+      {
+        queryKey: ['loans', { isActive: true }],
+        queryFn: fetchLoans,
+        staleTime: 60 * 1000, // 1 minute
+      },
+      {
+        queryKey: ['payments', { status: 'overdue' }],
+        queryFn: fetchOverduePayments,
+        staleTime: 60 * 1000, // 1 minute
+      },
+      {
+        queryKey: ['payments', { status: 'pending', startDate: today, endDate: windowEnd }],
+        queryFn: () => fetchPendingPayments(today, windowEnd),
+        staleTime: 60 * 1000, // 1 minute
+      },
+    ],
+  });
+
+  const receivables = useMemo(
+    () => (loansQuery.data ?? []).filter(isReceivable),
+    [loansQuery.data]
+  );
+
+  // Installments owed to us: overdue ones are reminders, pending ones inflows
+  const overdue = (overdueQuery.data ?? []).filter((item) => isReceivable(item.loan));
+  const expected = (pendingQuery.data ?? []).filter((item) => isReceivable(item.loan));
+
+  if (receivables.length === 0) {
+    return null;
+  }
+
+  const formatCurrency = (amount: number | string) => {
+    const num = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(num);
+  };
+
+  const totalOwed = receivables.reduce(
+    (sum, loan) => sum + Number(loan.currentBalance),
+    0
+  );
+  const monthlyInflow = receivables.reduce(
+    (sum, loan) => sum + calculateMonthlyPaymentAmount(loan),
+    0
+  );
+  const remainingDue = (item: PaymentWithLoan) =>
+    Number(item.payment.amountDue) - Number(item.payment.amountPaid ?? 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Money Owed to You</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Outstanding Receivables</p>
+            <div className="text-2xl font-bold">{formatCurrency(totalOwed)}</div>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Expected Monthly Inflow</p>
+            <div className="text-2xl font-bold">{formatCurrency(monthlyInflow)}</div>
+          </div>
+        </div>
+
+        {overdue.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Overdue Reminders</h3>
+            {overdue.map((item) => (
+              <div
+                key={item.payment.id}
+                className="flex items-center gap-2 rounded border border-destructive/50 p-2 text-sm text-destructive"
+              >
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <span>
+                  <Link href={`/loans/${item.loan.id}`} className="font-medium hover:underline">
+                    {item.loan.lenderName}
+                  </Link>{' '}
+                  owes {formatCurrency(remainingDue(item))}, due{' '}
+                  {new Date(item.payment.dueDate).toLocaleDateString()} (
+                  {daysBetween(item.payment.dueDate, today)} days late)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">
+            Expected in the Next {INFLOW_WINDOW_DAYS} Days
+          </h3>
+          {expected.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No payments expected from borrowers.
+            </p>
+          ) : (
+            expected.map((item) => (
+              <div
+                key={item.payment.id}
+                className="flex items-center justify-between text-sm"
+              >
+                <span>
+                  {item.loan.lenderName}
+                  <span className="text-muted-foreground">
+                    {' '}
+                    · {new Date(item.payment.dueDate).toLocaleDateString()}
+                  </span>
+                </span>
+                <span className="font-medium">
+                  {formatCurrency(remainingDue(item))}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
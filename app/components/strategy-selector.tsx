@@ -11,18 +11,34 @@ import {
 } from '@/components/ui/dialog';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  DEFAULT_STRATEGY_TUNING,
+  STRATEGY_LABELS,
+  type StrategyType as PayoffStrategy,
+} from '@/lib/loan-calculations';
 
-type StrategyType = 'snowball' | 'avalanche' | 'custom' | null;
+type StrategyType = PayoffStrategy | null;
 
 function getStrategyLabel(strategyType: StrategyType): string {
-  if (strategyType === 'snowball') return 'Snowball Method';
-  if (strategyType === 'avalanche') return 'Avalanche Method';
-  if (strategyType === 'custom') return 'Custom Priority';
-  return 'Payment Strategy';
+  return strategyType ? STRATEGY_LABELS[strategyType] : 'Payment Strategy';
 }
 
+const STRATEGY_DESCRIPTIONS: Record<PayoffStrategy, string> = {
+  snowball: 'Pay smallest balance first',
+  avalanche: 'Pay highest interest rate first',
+  custom: 'Set your own priority order',
+  interest_cost: 'Pay the loan costing the most interest each month first',
+  cash_flow_index: 'Pay the highest payment-to-balance ratio first to free up cash flow',
+  snowflake: 'Snowball until a number of loans are closed, then avalanche',
+  lender_type: 'Pay mobile app loans first, then banks, then people',
+};
+
 export function StrategySelector() {
   const [strategyType, setStrategyType] = useState<StrategyType>(null);
+  const [snowflakeLoansToClose, setSnowflakeLoansToClose] = useState(
+    DEFAULT_STRATEGY_TUNING.snowflakeLoansToClose
+  );
   const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
 
@@ -35,6 +51,9 @@ export function StrategySelector() {
       const response = await fetch('/api/loans/strategy');
       if (response.ok) {
         const data = await response.json();
+        if (data.strategyTuning) {
+          setSnowflakeLoansToClose(data.strategyTuning.snowflakeLoansToClose);
+        }
         // Get strategy type from API response (explicitly returned)
         if (data.strategyType !== undefined) {
           setStrategyType(data.strategyType);
@@ -61,6 +80,7 @@ export function StrategySelector() {
         },
         body: JSON.stringify({
           strategyType: newStrategy,
+          ...(newStrategy === 'snowflake' ? { snowflakeLoansToClose } : {}),
         }),
       });
 
@@ -117,35 +137,17 @@ export function StrategySelector() {
             }
             className="space-y-4 mt-4"
           >
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="snowball" id="snowball" />
-              <Label htmlFor="snowball" className="cursor-pointer">
-                <div className="font-medium">Snowball Method</div>
-                <div className="text-sm text-muted-foreground">
-                  Pay smallest balance first
-                </div>
-              </Label>
-            </div>
-
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="avalanche" id="avalanche" />
-              <Label htmlFor="avalanche" className="cursor-pointer">
-                <div className="font-medium">Avalanche Method</div>
-                <div className="text-sm text-muted-foreground">
-                  Pay highest interest rate first
-                </div>
-              </Label>
-            </div>
-
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="custom" id="custom" />
-              <Label htmlFor="custom" className="cursor-pointer">
-                <div className="font-medium">Custom Priority</div>
-                <div className="text-sm text-muted-foreground">
-                  Set your own priority order
-                </div>
-              </Label>
-            </div>
+            {(Object.keys(STRATEGY_LABELS) as PayoffStrategy[]).map((strategy) => (
+              <div key={strategy} className="flex items-center space-x-2">
+                <RadioGroupItem value={strategy} id={strategy} />
+                <Label htmlFor={strategy} className="cursor-pointer">
+                  <div className="font-medium">{STRATEGY_LABELS[strategy]}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {STRATEGY_DESCRIPTIONS[strategy]}
+                  </div>
+                </Label>
+              </div>
+            ))}
 
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="" id="none" />
@@ -157,6 +159,30 @@ export function StrategySelector() {
               </Label>
             </div>
           </RadioGroup>
+
+          <div className="flex items-end gap-2 border-t pt-4">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="snowflake-loans-to-close">
+                Snowflake: switch to avalanche after closing
+              </Label>
+              <Input
+                id="snowflake-loans-to-close"
+                type="number"
+                min={1}
+                step={1}
+                value={snowflakeLoansToClose}
+                onChange={(e) =>
+                  setSnowflakeLoansToClose(Math.max(1, parseInt(e.target.value) || 1))
+                }
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => handleStrategyChange('snowflake')}
+            >
+              Use Snowflake
+            </Button>
+          </div>
         </DialogContent>
       </Dialog>
     </>
@@ -3,11 +3,17 @@
 import { useEffect, useMemo } from 'react';
 import { useQueries, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { calculateMonthlyObligation, calculateAvailableExtraFunds } from '@/lib/loan-calculations';
+import {
+  calculateMonthlyObligation,
+  calculateAvailableExtraFunds,
+  calculateMonthlyInterest,
+  isReceivable,
+} from '@/lib/loan-calculations';
 import type { Loan, MonthlyBudget } from '@/lib/db/schema';
 
 interface SummaryData {
   totalDebt: number;
+  totalCharges: number;
   monthlyObligation: number;
   monthlyBudget: number;
   availableExtraFunds: number;
@@ -29,7 +35,7 @@ async function fetchBudget(): Promise<MonthlyBudget | null> {
   return res.json();
 }
 
-async function fetchOverduePayments(): Promise<unknown[]> {
+async function fetchOverduePayments(): Promise<{ loan: Loan }[]> {
   const res = await fetch('/api/payments?status=overdue');
   if (!res.ok) return [];
   return res.json();
@@ -87,14 +93,22 @@ export function SummaryCards() {
 
   // Compute summary data from query results
   const summary = useMemo<SummaryData>(() => {
-    const loans = loansQuery.data ?? [];
+    // Receivables are money coming in, so they stay out of the debt totals
+    const loans = (loansQuery.data ?? []).filter((loan) => !isReceivable(loan));
     const budget = budgetQuery.data ?? null;
-    const overduePayments = paymentsQuery.data ?? [];
+    const overduePayments = (paymentsQuery.data ?? []).filter(
+      (item) => !isReceivable(item.loan)
+    );
 
     const totalDebt = loans.reduce(
       (sum, loan) => sum + Number(loan.currentBalance),
       0
     );
+    // Fees and penalties are already part of each balance
+    const totalCharges = loans.reduce(
+      (sum, loan) => sum + Number(loan.outstandingCharges ?? 0),
+      0
+    );
     const monthlyObligation = calculateMonthlyObligation(loans);
     const monthlyBudgetAmount = budget
       ? Number(budget.monthlyAllocation)
@@ -116,16 +130,21 @@ export function SummaryCards() {
     const nextPaymentDue =
       upcomingPayments.length > 0 ? upcomingPayments[0].date : null;
 
-    // Calculate total interest (simplified - would need full calculation)
+    // Calculate total interest (simplified - one year at the current balance)
     const totalInterest = loans.reduce(
       (sum, loan) =>
         sum +
-        (Number(loan.currentBalance) * Number(loan.interestRate)) / 100,
+        calculateMonthlyInterest(
+          Number(loan.currentBalance) - Number(loan.outstandingCharges ?? 0),
+          loan
+        ) *
+          12,
       0
     );
 
     return {
       totalDebt,
+      totalCharges,
       monthlyObligation,
       monthlyBudget: monthlyBudgetAmount,
       availableExtraFunds,
@@ -171,6 +190,11 @@ export function SummaryCards() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{formatCurrency(summary.totalDebt)}</div>
+          {summary.totalCharges > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Includes {formatCurrency(summary.totalCharges)} in fees &amp; charges
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -1,10 +1,11 @@
 import { SummaryCards } from '../components/summary-cards';
+import { ReceivablesOverview } from '../components/receivables-overview';
 
 export default function Dashboard() {
   return (
     <div className="container mx-auto py-8 space-y-8">
       <SummaryCards />
+      <ReceivablesOverview />
     </div>
   );
 }
-
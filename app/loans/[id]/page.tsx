@@ -0,0 +1,15 @@
+import { LoanDetail } from '../components/loan-detail';
+
+export default async function LoanDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <div className="container mx-auto py-8">
+      <LoanDetail loanId={parseInt(id, 10)} />
+    </div>
+  );
+}
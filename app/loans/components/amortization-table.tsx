@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { Loan } from '@/lib/db/schema';
+import type { AmortizationRow } from '@/lib/loan-calculations';
+
+type AmortizationBasis = 'current' | 'original';
+
+interface AmortizationResponse {
+  loanId: number;
+  basis: AmortizationBasis;
+  paymentFrequency: string;
+  rows: AmortizationRow[];
+  totals: {
+    interest: number;
+    principal: number;
+    payments: number;
+  };
+}
+
+interface AmortizationTableProps {
+  loan: Loan | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Query function
+async function fetchAmortization(
+  loanId: number,
+  basis: AmortizationBasis
+): Promise<AmortizationResponse> {
+  const response = await fetch(
+    `/api/loans/${loanId}/amortization?basis=${basis}`
+  );
+  if (!response.ok) throw new Error('Failed to fetch amortization table');
+  return response.json();
+}
+
+export function AmortizationTable({ loan, open, onClose }: AmortizationTableProps) {
+  const [basis, setBasis] = useState<AmortizationBasis>('current');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['loans', 'amortization', loan?.id, basis],
+    queryFn: () => fetchAmortization(loan!.id, basis),
+    enabled: open && loan !== null,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(amount);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Amortization Table{loan ? ` — ${loan.lenderName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Installment-by-installment breakdown of interest and principal
+            {loan && (
+              <span className="capitalize">
+                {' '}({loan.paymentFrequency.replace('_', '-')} payments)
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs
+          value={basis}
+          onValueChange={(value) => setBasis(value as AmortizationBasis)}
+        >
+          <TabsList>
+            <TabsTrigger value="current">From Current Balance</TabsTrigger>
+            <TabsTrigger value="original">From Origination</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="h-64 bg-muted animate-pulse rounded" />
+        ) : error ? (
+          <div className="text-center py-8 text-destructive">
+            Error loading amortization table. Please try again.
+          </div>
+        ) : !data || data.rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No remaining installments for this loan.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead className="text-right">Opening Balance</TableHead>
+                <TableHead className="text-right">Interest</TableHead>
+                <TableHead className="text-right">Principal</TableHead>
+                <TableHead className="text-right">Payment</TableHead>
+                <TableHead className="text-right">Closing Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.rows.map((row) => (
+                <TableRow key={row.period}>
+                  <TableCell>{row.period}</TableCell>
+                  <TableCell>{new Date(row.date).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.openingBalance)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.interest)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.principal)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.payment)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.closingBalance)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={3}>Totals</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(data.totals.interest)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(data.totals.principal)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(data.totals.payments)}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
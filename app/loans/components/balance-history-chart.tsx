@@ -0,0 +1,104 @@
+'use client';
+
+import type { BalanceEvent } from '@/lib/db/schema';
+
+interface BalanceHistoryChartProps {
+  events: BalanceEvent[];
+  formatCurrency: (amount: number) => string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 16 };
+
+export function BalanceHistoryChart({ events, formatCurrency }: BalanceHistoryChartProps) {
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No balance history recorded yet.
+      </div>
+    );
+  }
+
+  const points = events.map((event) => ({
+    time: new Date(event.eventDate).getTime(),
+    balance: Number(event.balanceAfter),
+    event,
+  }));
+
+  const minTime = points[0].time;
+  // Extend a single-day history so the line has some width
+  const maxTime = Math.max(points[points.length - 1].time, minTime + 24 * 60 * 60 * 1000);
+  const maxBalance = Math.max(...points.map((point) => point.balance), 1);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) =>
+    PADDING.left + ((time - minTime) / (maxTime - minTime)) * plotWidth;
+  const y = (balance: number) =>
+    PADDING.top + plotHeight - (balance / maxBalance) * plotHeight;
+
+  // The balance holds until the next event, so draw it as a step line
+  const path = points
+    .map((point, index) => {
+      if (index === 0) return `M ${x(point.time)} ${y(point.balance)}`;
+      const previous = points[index - 1];
+      return `L ${x(point.time)} ${y(previous.balance)} L ${x(point.time)} ${y(point.balance)}`;
+    })
+    .join(' ');
+  const lastPoint = points[points.length - 1];
+  const fullPath = `${path} L ${x(maxTime)} ${y(lastPoint.balance)}`;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Balance over time"
+    >
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={y(0)}
+        y2={y(0)}
+        className="stroke-border"
+      />
+      <path d={fullPath} fill="none" className="stroke-primary" strokeWidth={2} />
+      {points.map((point) => (
+        <circle
+          key={point.event.id}
+          cx={x(point.time)}
+          cy={y(point.balance)}
+          r={3}
+          className="fill-primary"
+        >
+          <title>
+            {`${new Date(point.event.eventDate).toLocaleDateString()} — ${point.event.eventType.replace('_', ' ')}: ${formatCurrency(point.balance)}`}
+          </title>
+        </circle>
+      ))}
+      <text
+        x={PADDING.left}
+        y={PADDING.top - 4}
+        className="fill-muted-foreground text-[10px]"
+      >
+        {formatCurrency(maxBalance)}
+      </text>
+      <text
+        x={PADDING.left}
+        y={HEIGHT - 8}
+        className="fill-muted-foreground text-[10px]"
+      >
+        {new Date(minTime).toLocaleDateString()}
+      </text>
+      <text
+        x={WIDTH - PADDING.right}
+        y={HEIGHT - 8}
+        textAnchor="end"
+        className="fill-muted-foreground text-[10px]"
+      >
+        {new Date(maxTime).toLocaleDateString()}
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,427 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQueries, useQueryClient } from '@tanstack/react-query';
+import {
+  consolidationSchema,
+  type ConsolidationInput,
+} from '@/lib/validations/consolidation-schema';
+import { calculateConsolidation } from '@/lib/loan-calculations';
+import type { Loan, LoanRateChange } from '@/lib/db/schema';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+async function fetchRateChanges(loanId: number): Promise<LoanRateChange[]> {
+  const response = await fetch(`/api/loans/${loanId}/rate-changes`);
+  if (!response.ok) throw new Error('Failed to fetch rate changes');
+  const data = await response.json();
+  return data.rateChanges;
+}
+
+interface ConsolidationDialogProps {
+  loans: Loan[];
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ConsolidationDialog({ loans, open, onClose }: ConsolidationDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {/* Mounted only while open so each consolidation starts fresh */}
+        {open && <ConsolidationForm loans={loans} onClose={onClose} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ConsolidationForm({ loans, onClose }: Omit<ConsolidationDialogProps, 'open'>) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<ConsolidationInput>({
+    resolver: zodResolver(consolidationSchema),
+    defaultValues: {
+      sourceLoanIds: [],
+      sourceType: 'bank',
+      lenderName: '',
+      interestMethod: 'diminishing',
+      paymentFrequency: 'monthly',
+      startDate: new Date().toISOString().split('T')[0],
+      fees: 0,
+    },
+  });
+
+  const values = useWatch({ control: form.control });
+  const sourceLoans = loans.filter((loan) =>
+    values.sourceLoanIds?.includes(loan.id)
+  );
+  const rateChangeQueries = useQueries({
+    queries: sourceLoans.map((loan) => ({
+      queryKey: ['loans', loan.id, 'rate-changes'],
+      queryFn: () => fetchRateChanges(loan.id),
+      staleTime: 60 * 1000, // 1 minute
+    })),
+  });
+  const rateChanges = rateChangeQueries.flatMap((query) => query.data ?? []);
+  const plan =
+    sourceLoans.length > 0 &&
+    values.interestRate !== undefined &&
+    values.loanTermMonths &&
+    values.interestMethod &&
+    values.paymentFrequency &&
+    values.startDate
+      ? calculateConsolidation(
+        sourceLoans,
+        {
+          interestRate: values.interestRate,
+          interestMethod: values.interestMethod,
+          loanTermMonths: values.loanTermMonths,
+          paymentFrequency: values.paymentFrequency,
+          startDate: values.startDate,
+          fees: values.fees ?? 0,
+          principalAmount: values.principalAmount ?? undefined,
+        },
+        rateChanges
+      )
+      : null;
+
+  const consolidateMutation = useMutation({
+    mutationFn: async (data: ConsolidationInput) => {
+      const response = await fetch('/api/loans/consolidate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to consolidate loans');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      // Loans were closed and created, with their schedules
+      queryClient.invalidateQueries({ queryKey: ['loans'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['budget'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      console.error('Error consolidating loans:', error);
+      alert(error.message || 'Failed to consolidate loans. Please try again.');
+    },
+  });
+
+  const formatCurrency = (value: number | string) => {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(num);
+  };
+
+  const formatDate = (date: string | null) =>
+    date ? new Date(date).toLocaleDateString() : '—';
+
+  const numberField = (
+    name: 'interestRate' | 'loanTermMonths' | 'fees' | 'principalAmount',
+    label: string,
+    step = '0.01'
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step={step}
+              {...field}
+              value={field.value ?? ''}
+              onChange={(e) =>
+                field.onChange(
+                  e.target.value === '' && name === 'principalAmount'
+                    ? null
+                    : parseFloat(e.target.value) || 0
+                )
+              }
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Consolidate Loans</DialogTitle>
+        <DialogDescription>
+          Pay off several loans with one new loan. The source loans are closed
+          and linked to the new one.
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((data) => consolidateMutation.mutate(data))}
+          className="space-y-4"
+        >
+          <FormField
+            control={form.control}
+            name="sourceLoanIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Loans to pay off</FormLabel>
+                <div className="grid grid-cols-2 gap-2">
+                  {loans.map((loan) => (
+                    <label
+                      key={loan.id}
+                      className="flex items-center gap-2 text-sm border rounded p-2 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={field.value.includes(loan.id)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked
+                              ? [...field.value, loan.id]
+                              : field.value.filter((id) => id !== loan.id)
+                          )
+                        }
+                      />
+                      <span className="flex-1">{loan.lenderName}</span>
+                      <span className="text-muted-foreground">
+                        {formatCurrency(loan.currentBalance)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="lenderName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Lender</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="sourceType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Source Type</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="bank">Bank</SelectItem>
+                      <SelectItem value="mobile_app">Mobile App</SelectItem>
+                      <SelectItem value="person">Person</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Disbursement Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {numberField('interestRate', 'Interest Rate (%)')}
+
+            <FormField
+              control={form.control}
+              name="interestMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Interest Method</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="diminishing">Diminishing Balance (APR)</SelectItem>
+                      <SelectItem value="add_on">Add-On / Flat (per month)</SelectItem>
+                      <SelectItem value="simple">Simple Interest (per year)</SelectItem>
+                      <SelectItem value="zero_interest">Zero Interest</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="paymentFrequency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Payment Frequency</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="bi_weekly">Bi-Weekly</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {numberField('loanTermMonths', 'Term (Months)', '1')}
+            {numberField('fees', 'Fees')}
+            {numberField('principalAmount', 'Principal (Optional)')}
+          </div>
+
+          {plan && (
+            <div className="space-y-3 rounded-md border p-3 text-sm">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <div className="text-muted-foreground mb-1">Payoff Amount</div>
+                  <div className="font-medium">{formatCurrency(plan.payoffAmount)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground mb-1">New Principal</div>
+                  <div className="font-medium">
+                    {formatCurrency(plan.newLoan.principalAmount)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground mb-1">Cash Released</div>
+                  <div
+                    className={
+                      plan.cashOut < 0 ? 'font-medium text-destructive' : 'font-medium'
+                    }
+                  >
+                    {formatCurrency(plan.cashOut)}
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-4 gap-4">
+                <div />
+                <div className="text-muted-foreground">Monthly Payment</div>
+                <div className="text-muted-foreground">Interest Left</div>
+                <div className="text-muted-foreground">Debt-Free</div>
+
+                <div className="text-muted-foreground">Before</div>
+                <div>{formatCurrency(plan.before.monthlyPayment)}</div>
+                <div>{formatCurrency(plan.before.totalInterest)}</div>
+                <div>{formatDate(plan.before.payoffDate)}</div>
+
+                <div className="text-muted-foreground">After</div>
+                <div>{formatCurrency(plan.after.monthlyPayment)}</div>
+                <div
+                  className={
+                    plan.after.totalInterest + (values.fees ?? 0) <
+                    plan.before.totalInterest
+                      ? 'text-green-600'
+                      : 'text-destructive'
+                  }
+                >
+                  {formatCurrency(plan.after.totalInterest)}
+                  {(values.fees ?? 0) > 0 && (
+                    <span className="text-muted-foreground">
+                      {' '}+ {formatCurrency(values.fees ?? 0)} fees
+                    </span>
+                  )}
+                </div>
+                <div>{formatDate(plan.after.payoffDate)}</div>
+              </div>
+            </div>
+          )}
+
+          {plan && plan.cashOut < 0 && (
+            <p className="text-sm text-destructive">
+              The principal does not cover the payoff amount and fees.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={consolidateMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                consolidateMutation.isPending || !plan || plan.cashOut < 0
+              }
+            >
+              {consolidateMutation.isPending ? 'Processing...' : 'Consolidate'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </>
+  );
+}
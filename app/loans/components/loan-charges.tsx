@@ -0,0 +1,327 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createChargeSchema, type ChargeInput } from '@/lib/validations/charge-schema';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { Loan, LoanCharge } from '@/lib/db/schema';
+import { Trash2 } from 'lucide-react';
+
+interface LoanChargesProps {
+  loan: Loan | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const CHARGE_TYPE_LABELS: Record<ChargeInput['chargeType'], string> = {
+  late_fee: 'Late Fee',
+  processing_fee: 'Processing Fee',
+  insurance: 'Insurance',
+  penalty_interest: 'Penalty Interest',
+  other: 'Other',
+  purchase: 'New Charge (Purchase)',
+};
+
+// Query function
+async function fetchCharges(loanId: number): Promise<LoanCharge[]> {
+  const response = await fetch(`/api/loans/${loanId}/charges`);
+  if (!response.ok) throw new Error('Failed to fetch charges');
+  return response.json();
+}
+
+export function LoanCharges({ loan, open, onClose }: LoanChargesProps) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<ChargeInput>({
+    resolver: zodResolver(createChargeSchema),
+    defaultValues: {
+      chargeType: 'late_fee',
+      chargeDate: new Date().toISOString().split('T')[0],
+    },
+  });
+
+  const { data: charges = [], isLoading, error } = useQuery({
+    queryKey: ['loans', 'charges', loan?.id],
+    queryFn: () => fetchCharges(loan!.id),
+    enabled: open && loan !== null,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  // Charges change the loan balance, so everything derived from it is stale
+  function invalidateChargeQueries() {
+    queryClient.invalidateQueries({ queryKey: ['loans'] });
+    queryClient.invalidateQueries({ queryKey: ['budget'] });
+    queryClient.invalidateQueries({ queryKey: ['payments', 'extra-allocations'] });
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ChargeInput) => {
+      const response = await fetch(`/api/loans/${loan!.id}/charges`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add charge');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateChargeQueries();
+      form.reset({
+        chargeType: 'late_fee',
+        chargeDate: new Date().toISOString().split('T')[0],
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error adding charge:', error);
+      alert(error.message || 'Failed to add charge. Please try again.');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (chargeId: number) => {
+      const response = await fetch(`/api/loans/${loan!.id}/charges/${chargeId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to delete charge');
+    },
+    onSuccess: invalidateChargeQueries,
+  });
+
+  const accrueMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/loans/${loan!.id}/charges/accrue`, {
+        method: 'POST',
+      });
+      if (!response.ok) throw new Error('Failed to accrue penalties');
+      return response.json();
+    },
+    onSuccess: invalidateChargeQueries,
+  });
+
+  function handleDelete(chargeId: number) {
+    if (!confirm('Are you sure you want to delete this charge?')) {
+      return;
+    }
+    deleteMutation.mutate(chargeId);
+  }
+
+  const formatCurrency = (amount: number | string) => {
+    const num = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(num);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fees &amp; Charges{loan ? ` — ${loan.lenderName}` : ''}</DialogTitle>
+          <DialogDescription>
+            {loan
+              ? `Outstanding charges: ${formatCurrency(loan.outstandingCharges)}`
+              : 'Fees, penalties and other charges added to the loan balance'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="chargeType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(CHARGE_TYPE_LABELS)
+                          // Only revolving accounts take new purchases
+                          .filter(
+                            ([value]) =>
+                              value !== 'purchase' || loan?.accountType === 'revolving'
+                          )
+                          .map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) =>
+                          field.onChange(parseFloat(e.target.value) || 0)
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="chargeDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (Optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              {loan?.penaltyRuleType && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => accrueMutation.mutate()}
+                  disabled={accrueMutation.isPending}
+                >
+                  Accrue Penalties
+                </Button>
+              )}
+              <Button type="submit" disabled={createMutation.isPending}>
+                Add Charge
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {isLoading ? (
+          <div className="h-32 bg-muted animate-pulse rounded" />
+        ) : error ? (
+          <div className="text-center py-8 text-destructive">
+            Error loading charges. Please try again.
+          </div>
+        ) : charges.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No charges recorded for this loan.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {charges.map((charge) => (
+                <TableRow key={charge.id}>
+                  <TableCell>
+                    {new Date(charge.chargeDate).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    {CHARGE_TYPE_LABELS[charge.chargeType]}
+                    {charge.isAutomatic && (
+                      <div className="text-xs text-muted-foreground">Automatic</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{charge.description || '-'}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(charge.amount)}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(charge.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
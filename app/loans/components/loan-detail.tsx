@@ -0,0 +1,191 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { BalanceEvent, Loan } from '@/lib/db/schema';
+import { calculateUtilization } from '@/lib/loan-calculations';
+import { BalanceHistoryChart } from './balance-history-chart';
+import { ArrowLeft } from 'lucide-react';
+
+interface BalanceHistoryResponse {
+  loanId: number;
+  currentBalance: number;
+  asOf: string | null;
+  balanceAsOf: number | null;
+  events: BalanceEvent[];
+}
+
+interface LoanDetailProps {
+  loanId: number;
+}
+
+// Query functions
+async function fetchLoan(loanId: number): Promise<Loan> {
+  const response = await fetch(`/api/loans/${loanId}`);
+  if (!response.ok) throw new Error('Failed to fetch loan');
+  return response.json();
+}
+
+async function fetchBalanceHistory(loanId: number): Promise<BalanceHistoryResponse> {
+  const response = await fetch(`/api/loans/${loanId}/history`);
+  if (!response.ok) throw new Error('Failed to fetch balance history');
+  return response.json();
+}
+
+export function LoanDetail({ loanId }: LoanDetailProps) {
+  const loanQuery = useQuery({
+    queryKey: ['loans', loanId],
+    queryFn: () => fetchLoan(loanId),
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const historyQuery = useQuery({
+    queryKey: ['loans', 'history', loanId],
+    queryFn: () => fetchBalanceHistory(loanId),
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const formatCurrency = (amount: number | string) => {
+    const num = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(num);
+  };
+
+  if (loanQuery.isLoading || historyQuery.isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Loan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64 bg-muted animate-pulse rounded" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loanQuery.error || historyQuery.error || !loanQuery.data) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Loan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-destructive">
+            Error loading loan. Please try again.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const loan = loanQuery.data;
+  const events = historyQuery.data?.events ?? [];
+  const utilization = calculateUtilization(loan);
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/loans"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to loans
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{loan.lenderName}</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Current balance {formatCurrency(loan.currentBalance)}
+            {Number(loan.outstandingCharges) > 0 &&
+              ` (incl. ${formatCurrency(loan.outstandingCharges)} charges)`}
+          </p>
+          {utilization !== null && (
+            <p className="text-sm text-muted-foreground">
+              {utilization.toFixed(0)}% of {formatCurrency(loan.creditLimit ?? 0)} credit
+              limit used
+            </p>
+          )}
+          {loan.consolidatedIntoLoanId && (
+            <p className="text-sm text-muted-foreground">
+              Paid off by{' '}
+              <Link
+                href={`/loans/${loan.consolidatedIntoLoanId}`}
+                className="underline hover:text-foreground"
+              >
+                the consolidation loan
+              </Link>
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          <BalanceHistoryChart events={events} formatCurrency={formatCurrency} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Balance History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No balance history recorded yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...events].reverse().map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell>
+                      {new Date(event.eventDate).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <span className="capitalize">
+                        {event.eventType.replace('_', ' ')}
+                      </span>
+                    </TableCell>
+                    <TableCell>{event.description || '-'}</TableCell>
+                    <TableCell
+                      className={
+                        Number(event.amount) < 0
+                          ? 'text-right text-green-600'
+                          : 'text-right text-red-600'
+                      }
+                    >
+                      {formatCurrency(event.amount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(event.balanceAfter)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 'use client';
 
 import { useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createLoanSchema, type LoanInput } from '@/lib/validations/loan-schema';
 import { Button } from '@/components/ui/button';
 import {
@@ -15,6 +15,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -28,7 +29,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import type { Loan } from '@/lib/db/schema';
+import type { Loan, LoanRateChange } from '@/lib/db/schema';
+import { addMonthsClamped, calendarMonthsBetween } from '@/lib/payment-schedule';
+import {
+  calculateMinimumPaymentDue,
+  calculatePeriodInterest,
+  hasBalanceBasedMinimum,
+} from '@/lib/loan-calculations';
+import { Trash2 } from 'lucide-react';
 
 interface LoanFormProps {
   loan?: Loan | null;
@@ -37,32 +45,95 @@ interface LoanFormProps {
   onCancel: () => void;
 }
 
+async function fetchRateChanges(loanId: number): Promise<LoanRateChange[]> {
+  const response = await fetch(`/api/loans/${loanId}/rate-changes`);
+  if (!response.ok) throw new Error('Failed to fetch rate changes');
+  const data = await response.json();
+  return data.rateChanges;
+}
+
+// Saved rate changes as form rows; left unset until loaded so saving early
+// doesn't clear the schedule
+function toRateChangeInputs(
+  rateChanges: LoanRateChange[] | undefined
+): LoanInput['rateChanges'] {
+  return rateChanges?.map((change) => ({
+    effectiveDate: change.effectiveDate,
+    interestRate: Number(change.interestRate),
+  }));
+}
+
+function getInterestRateLabel(interestMethod: LoanInput['interestMethod']): string {
+  if (interestMethod === 'add_on') return 'Add-On Rate (% / month)';
+  if (interestMethod === 'simple') return 'Simple Rate (% / year)';
+  if (interestMethod === 'zero_interest') return 'Interest Rate (unused)';
+  return 'Interest Rate (% APR)';
+}
+
+function getPenaltyRateLabel(penaltyRuleType: LoanInput['penaltyRuleType']): string {
+  if (penaltyRuleType === 'fixed') return 'Late Fee (per installment)';
+  if (penaltyRuleType === 'percent_per_day') return 'Penalty (% of unpaid / day)';
+  return 'Penalty Rate';
+}
+
 export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
+  const { data: savedRateChanges } = useQuery({
+    queryKey: ['loans', loan?.id, 'rate-changes'],
+    queryFn: () => fetchRateChanges(loan!.id),
+    enabled: !!loan,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
   const form = useForm<LoanInput>({
     resolver: zodResolver(createLoanSchema),
     defaultValues: loan
       ? {
         sourceType: loan.sourceType,
+        accountType: loan.accountType,
+        direction: loan.direction,
         lenderName: loan.lenderName,
         accountNumber: loan.accountNumber ?? undefined,
         principalAmount: Number(loan.principalAmount),
         currentBalance: Number(loan.currentBalance),
         interestRate: Number(loan.interestRate),
+        interestMethod: loan.interestMethod,
         loanTermMonths: loan.loanTermMonths,
         startDate: loan.startDate,
         paymentFrequency: loan.paymentFrequency,
         minimumPayment: Number(loan.minimumPayment),
         nextPaymentDueDate: loan.nextPaymentDueDate,
+        paymentDueDay: loan.paymentDueDay,
+        creditLimit:
+          loan.creditLimit !== null ? Number(loan.creditLimit) : null,
+        statementDay: loan.statementDay,
+        minimumPaymentRule: loan.minimumPaymentRule,
+        minimumPaymentPercent:
+          loan.minimumPaymentPercent !== null
+            ? Number(loan.minimumPaymentPercent)
+            : null,
+        minimumPaymentFloor:
+          loan.minimumPaymentFloor !== null
+            ? Number(loan.minimumPaymentFloor)
+            : null,
         paymentStatus: loan.paymentStatus,
         strategyType: loan.strategyType ?? undefined,
         priorityOrder: loan.priorityOrder ?? undefined,
+        penaltyRuleType: loan.penaltyRuleType,
+        penaltyRate:
+          loan.penaltyRate !== null ? Number(loan.penaltyRate) : null,
         isActive: loan.isActive,
+        rateChanges: toRateChangeInputs(savedRateChanges),
       }
       : {
         sourceType: 'bank',
+        accountType: 'installment',
+        direction: 'borrowed',
+        minimumPaymentRule: 'fixed',
         paymentFrequency: 'monthly',
+        interestMethod: 'diminishing',
         paymentStatus: 'current',
         isActive: true,
+        rateChanges: [],
       },
   });
 
@@ -70,23 +141,142 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
     if (loan) {
       form.reset({
         sourceType: loan.sourceType,
+        accountType: loan.accountType,
+        direction: loan.direction,
         lenderName: loan.lenderName,
         accountNumber: loan.accountNumber ?? undefined,
         principalAmount: Number(loan.principalAmount),
         currentBalance: Number(loan.currentBalance),
         interestRate: Number(loan.interestRate),
+        interestMethod: loan.interestMethod,
         loanTermMonths: loan.loanTermMonths,
         startDate: loan.startDate,
         paymentFrequency: loan.paymentFrequency,
         minimumPayment: Number(loan.minimumPayment),
         nextPaymentDueDate: loan.nextPaymentDueDate,
+        paymentDueDay: loan.paymentDueDay,
+        creditLimit:
+          loan.creditLimit !== null ? Number(loan.creditLimit) : null,
+        statementDay: loan.statementDay,
+        minimumPaymentRule: loan.minimumPaymentRule,
+        minimumPaymentPercent:
+          loan.minimumPaymentPercent !== null
+            ? Number(loan.minimumPaymentPercent)
+            : null,
+        minimumPaymentFloor:
+          loan.minimumPaymentFloor !== null
+            ? Number(loan.minimumPaymentFloor)
+            : null,
         paymentStatus: loan.paymentStatus,
         strategyType: loan.strategyType ?? undefined,
         priorityOrder: loan.priorityOrder ?? undefined,
+        penaltyRuleType: loan.penaltyRuleType,
+        penaltyRate:
+          loan.penaltyRate !== null ? Number(loan.penaltyRate) : null,
         isActive: loan.isActive,
+        rateChanges: toRateChangeInputs(savedRateChanges),
       });
     }
-  }, [loan, form]);
+  }, [loan, savedRateChanges, form]);
+
+  const rateChangeRows = useFieldArray({
+    control: form.control,
+    name: 'rateChanges',
+  });
+
+  const startDate = useWatch({
+    control: form.control,
+    name: 'startDate',
+  });
+
+  const direction = useWatch({
+    control: form.control,
+    name: 'direction',
+  });
+
+  const accountType = useWatch({
+    control: form.control,
+    name: 'accountType',
+  });
+  const isRevolving = accountType === 'revolving';
+
+  const interestMethod = useWatch({
+    control: form.control,
+    name: 'interestMethod',
+  });
+
+  const [
+    currentBalance,
+    principalAmount,
+    interestRate,
+    paymentFrequency,
+    minimumPaymentRule,
+    minimumPaymentPercent,
+    minimumPaymentFloor,
+  ] = useWatch({
+    control: form.control,
+    name: [
+      'currentBalance',
+      'principalAmount',
+      'interestRate',
+      'paymentFrequency',
+      'minimumPaymentRule',
+      'minimumPaymentPercent',
+      'minimumPaymentFloor',
+    ],
+  });
+  const hasFormulaMinimum = hasBalanceBasedMinimum({
+    minimumPayment: 0,
+    minimumPaymentRule,
+  });
+
+  // Balance-based minimums are worked out from the terms, so keep the
+  // minimum payment in step instead of asking for it. Revolving accounts
+  // have no term either.
+  useEffect(() => {
+    if (hasFormulaMinimum) {
+      const balance = currentBalance || 0;
+      const interest = calculatePeriodInterest(balance, {
+        interestMethod: interestMethod ?? 'diminishing',
+        interestRate: interestRate || 0,
+        principalAmount: principalAmount || 0,
+        paymentFrequency,
+      });
+      form.setValue(
+        'minimumPayment',
+        calculateMinimumPaymentDue(
+          {
+            minimumPayment: 0,
+            minimumPaymentRule,
+            minimumPaymentPercent: minimumPaymentPercent ?? null,
+            minimumPaymentFloor: minimumPaymentFloor ?? null,
+          },
+          balance + interest,
+          interest
+        )
+      );
+    }
+    if (isRevolving && !form.getValues('loanTermMonths')) {
+      form.setValue('loanTermMonths', 12);
+    }
+  }, [
+    hasFormulaMinimum,
+    isRevolving,
+    currentBalance,
+    principalAmount,
+    interestRate,
+    interestMethod,
+    paymentFrequency,
+    minimumPaymentRule,
+    minimumPaymentPercent,
+    minimumPaymentFloor,
+    form,
+  ]);
+
+  const penaltyRuleType = useWatch({
+    control: form.control,
+    name: 'penaltyRuleType',
+  });
 
   const queryClient = useQueryClient();
 
@@ -144,7 +334,32 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="direction"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Direction</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="borrowed">We Borrowed</SelectItem>
+                        <SelectItem value="lent">We Lent (Receivable)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="sourceType"
@@ -176,7 +391,9 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
                 name="lenderName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Lender Name</FormLabel>
+                    <FormLabel>
+                      {direction === 'lent' ? 'Borrower Name' : 'Lender Name'}
+                    </FormLabel>
                     <FormControl>
                       <Input {...field} />
                     </FormControl>
@@ -186,48 +403,65 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="accountNumber"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Account Number (Optional)</FormLabel>
-                  <FormControl>
-                    <Input {...field} value={field.value || ''} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="principalAmount"
+                name="accountType"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Principal Amount</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(parseFloat(e.target.value) || 0)
+                    <FormLabel>Account Type</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Cards and credit lines usually bill a percentage of the balance
+                        if (
+                          value === 'revolving' &&
+                          form.getValues('minimumPaymentRule') === 'fixed'
+                        ) {
+                          form.setValue('minimumPaymentRule', 'percent_of_balance');
                         }
-                      />
+                      }}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="installment">Installment Loan</SelectItem>
+                        <SelectItem value="revolving">
+                          Revolving Credit (Card / Credit Line)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="accountNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account Number (Optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ''} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+            </div>
 
+            <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="currentBalance"
+                name="principalAmount"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Current Balance</FormLabel>
+                    <FormLabel>Principal Amount</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -242,15 +476,13 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
                   </FormItem>
                 )}
               />
-            </div>
 
-            <div className="grid grid-cols-3 gap-4">
               <FormField
                 control={form.control}
-                name="interestRate"
+                name="currentBalance"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Interest Rate (%)</FormLabel>
+                    <FormLabel>Current Balance</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -265,19 +497,24 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
                   </FormItem>
                 )}
               />
+            </div>
 
+            <div className="grid grid-cols-3 gap-4">
               <FormField
                 control={form.control}
-                name="loanTermMonths"
+                name="interestRate"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Loan Term (Months)</FormLabel>
+                    <FormLabel>
+                      {getInterestRateLabel(interestMethod)}
+                    </FormLabel>
                     <FormControl>
                       <Input
                         type="number"
+                        step="0.01"
                         {...field}
                         onChange={(e) =>
-                          field.onChange(parseInt(e.target.value) || 0)
+                          field.onChange(parseFloat(e.target.value) || 0)
                         }
                       />
                     </FormControl>
@@ -286,16 +523,65 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
                 )}
               />
 
+              {isRevolving ? (
+                <FormField
+                  control={form.control}
+                  name="creditLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credit Limit</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value === '' ? null : parseFloat(e.target.value)
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="loanTermMonths"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Loan Term (Months)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          onChange={(e) =>
+                            field.onChange(parseInt(e.target.value) || 0)
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="minimumPayment"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Minimum Payment</FormLabel>
+                    <FormLabel>
+                      {hasFormulaMinimum ? 'Minimum Due Now' : 'Minimum Payment'}
+                    </FormLabel>
                     <FormControl>
                       <Input
                         type="number"
                         step="0.01"
+                        readOnly={hasFormulaMinimum}
                         {...field}
                         onChange={(e) =>
                           field.onChange(parseFloat(e.target.value) || 0)
@@ -364,7 +650,42 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="interestMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Interest Method</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="diminishing">
+                          Diminishing Balance (APR)
+                        </SelectItem>
+                        <SelectItem value="add_on">
+                          Add-On / Flat (per month)
+                        </SelectItem>
+                        <SelectItem value="simple">
+                          Simple Interest (per year)
+                        </SelectItem>
+                        <SelectItem value="zero_interest">
+                          Zero Interest
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="paymentStatus"
@@ -390,6 +711,296 @@ export function LoanForm({ loan, open, onSuccess, onCancel }: LoanFormProps) {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="paymentDueDay"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Day (Monthly)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={31}
+                        placeholder="From next due date"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value === '' ? null : parseInt(e.target.value)
+                          )
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="minimumPaymentRule"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Payment Rule</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="fixed">Fixed Amount</SelectItem>
+                        <SelectItem value="percent_of_balance">
+                          % of Balance (with Floor)
+                        </SelectItem>
+                        <SelectItem value="interest_plus_percent">
+                          Interest + % of Principal (with Floor)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {hasFormulaMinimum && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="minimumPaymentPercent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {minimumPaymentRule === 'interest_plus_percent'
+                            ? 'Minimum Due (Interest + % of Principal)'
+                            : 'Minimum Due (% of Balance)'}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.value === '' ? null : parseFloat(e.target.value)
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="minimumPaymentFloor"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum Due Floor</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.value === '' ? null : parseFloat(e.target.value)
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+            </div>
+
+            {isRevolving && (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="statementDay"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Statement Day</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={31}
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value === '' ? null : parseInt(e.target.value)
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <FormLabel>Rate Changes</FormLabel>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={!startDate}
+                  onClick={() =>
+                    rateChangeRows.append({
+                      effectiveDate: addMonthsClamped(startDate, 6),
+                      interestRate: 0,
+                    })
+                  }
+                >
+                  Add Rate Change
+                </Button>
+              </div>
+              <FormDescription>
+                The interest rate above applies until the first change, e.g.
+                0% for 6 months then 24% is a 0% rate with a change to 24%
+                after 6 months.
+              </FormDescription>
+              {rateChangeRows.fields.map((row, index) => (
+                <div key={row.id} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-start">
+                  <FormField
+                    control={form.control}
+                    name={`rateChanges.${index}.effectiveDate`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>After (Months from Start)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            disabled={!startDate || !field.value}
+                            value={
+                              startDate && field.value
+                                ? calendarMonthsBetween(startDate, field.value)
+                                : ''
+                            }
+                            onChange={(e) =>
+                              field.onChange(
+                                addMonthsClamped(startDate, parseInt(e.target.value) || 0)
+                              )
+                            }
+                          />
+                        </FormControl>
+                        {field.value && (
+                          <FormDescription>
+                            From {new Date(field.value).toLocaleDateString()}
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`rateChanges.${index}.interestRate`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{getInterestRateLabel(interestMethod)}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(parseFloat(e.target.value) || 0)
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="mt-6"
+                    onClick={() => rateChangeRows.remove(index)}
+                    title="Remove rate change"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="penaltyRuleType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Late Penalty Rule</FormLabel>
+                    <Select
+                      onValueChange={(value) =>
+                        field.onChange(value === 'none' ? null : value)
+                      }
+                      defaultValue={field.value ?? 'none'}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No Penalty</SelectItem>
+                        <SelectItem value="fixed">Fixed Late Fee</SelectItem>
+                        <SelectItem value="percent_per_day">
+                          % of Unpaid per Day
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="penaltyRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{getPenaltyRateLabel(penaltyRuleType)}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        disabled={!penaltyRuleType}
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value === '' ? null : parseFloat(e.target.value)
+                          )
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             <div className="flex justify-end gap-2">
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Table,
@@ -13,8 +14,17 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import type { Loan } from '@/lib/db/schema';
+import {
+  calculateMonthlyPaymentAmount,
+  calculateUtilization,
+  isReceivable,
+} from '@/lib/loan-calculations';
 import { LoanForm } from './loan-form';
-import { Edit, Trash2 } from 'lucide-react';
+import { AmortizationTable } from './amortization-table';
+import { LoanCharges } from './loan-charges';
+import { PrepaymentDialog } from './prepayment-dialog';
+import { ConsolidationDialog } from './consolidation-dialog';
+import { BanknoteArrowDown, Edit, ListOrdered, Receipt, Trash2 } from 'lucide-react';
 
 // Query function
 async function fetchLoans(): Promise<Loan[]> {
@@ -35,6 +45,10 @@ export function LoansTable() {
   const queryClient = useQueryClient();
   const [editingLoan, setEditingLoan] = useState<Loan | null>(null);
   const [showForm, setShowForm] = useState(false);
+  const [amortizationLoan, setAmortizationLoan] = useState<Loan | null>(null);
+  const [chargesLoanId, setChargesLoanId] = useState<number | null>(null);
+  const [prepaymentLoan, setPrepaymentLoan] = useState<Loan | null>(null);
+  const [showConsolidation, setShowConsolidation] = useState(false);
 
   // Fetch loans with TanStack Query
   const { data: loans = [], isLoading: loading } = useQuery({
@@ -43,6 +57,9 @@ export function LoansTable() {
     staleTime: 60 * 1000, // 1 minute
   });
 
+  // Look the loan up from the query so its balance refreshes as charges change
+  const chargesLoan = loans.find((loan) => loan.id === chargesLoanId) ?? null;
+
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: deleteLoan,
@@ -88,6 +105,20 @@ export function LoansTable() {
     }).format(num);
   };
 
+  const formatInterestRate = (loan: Loan) => {
+    const rate = Number(loan.interestRate).toFixed(2);
+    switch (loan.interestMethod) {
+      case 'add_on':
+        return `${rate}%/mo flat`;
+      case 'simple':
+        return `${rate}% simple`;
+      case 'zero_interest':
+        return '0% (fixed)';
+      default:
+        return `${rate}%`;
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'overdue':
@@ -118,7 +149,16 @@ export function LoansTable() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>Loans</CardTitle>
-            <Button onClick={() => setShowForm(true)}>Add Loan</Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowConsolidation(true)}
+                disabled={loans.length === 0}
+              >
+                Consolidate
+              </Button>
+              <Button onClick={() => setShowForm(true)}>Add Loan</Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -144,7 +184,14 @@ export function LoansTable() {
                 {loans.map((loan) => (
                   <TableRow key={loan.id}>
                     <TableCell className="font-medium">
-                      {loan.lenderName}
+                      <Link href={`/loans/${loan.id}`} className="hover:underline">
+                        {loan.lenderName}
+                      </Link>
+                      {isReceivable(loan) && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          Owed to you
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <span className="capitalize">
@@ -153,10 +200,26 @@ export function LoansTable() {
                     </TableCell>
                     <TableCell>
                       {formatCurrency(loan.currentBalance)}
+                      {Number(loan.outstandingCharges) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          incl. {formatCurrency(loan.outstandingCharges)} charges
+                        </div>
+                      )}
+                      {calculateUtilization(loan) !== null && (
+                        <div className="text-xs text-muted-foreground">
+                          {calculateUtilization(loan)?.toFixed(0)}% of{' '}
+                          {formatCurrency(loan.creditLimit ?? 0)} limit
+                        </div>
+                      )}
                     </TableCell>
-                    <TableCell>{Number(loan.interestRate).toFixed(2)}%</TableCell>
+                    <TableCell>{formatInterestRate(loan)}</TableCell>
                     <TableCell>
                       {formatCurrency(loan.minimumPayment)}
+                      {loan.paymentFrequency !== 'monthly' && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatCurrency(calculateMonthlyPaymentAmount(loan))}/mo
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       {new Date(loan.nextPaymentDueDate).toLocaleDateString()}
@@ -168,6 +231,30 @@ export function LoansTable() {
                     </TableCell>
                     <TableCell>
                       <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setAmortizationLoan(loan)}
+                          title="Amortization table"
+                        >
+                          <ListOrdered className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setChargesLoanId(loan.id)}
+                          title="Fees & charges"
+                        >
+                          <Receipt className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPrepaymentLoan(loan)}
+                          title="Prepayment"
+                        >
+                          <BanknoteArrowDown className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -201,6 +288,29 @@ export function LoansTable() {
           setEditingLoan(null);
         }}
       />
+
+      <AmortizationTable
+        loan={amortizationLoan}
+        open={amortizationLoan !== null}
+        onClose={() => setAmortizationLoan(null)}
+      />
+
+      <LoanCharges
+        loan={chargesLoan}
+        open={chargesLoan !== null}
+        onClose={() => setChargesLoanId(null)}
+      />
+
+      <PrepaymentDialog
+        loan={prepaymentLoan}
+        onClose={() => setPrepaymentLoan(null)}
+      />
+
+      <ConsolidationDialog
+        loans={loans.filter((loan) => !isReceivable(loan))}
+        open={showConsolidation}
+        onClose={() => setShowConsolidation(false)}
+      />
     </>
   );
 }
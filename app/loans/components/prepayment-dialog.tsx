@@ -0,0 +1,255 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { prepaymentSchema, type PrepaymentInput } from '@/lib/validations/prepayment-schema';
+import { calculatePrepaymentTerms } from '@/lib/loan-calculations';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import type { Loan } from '@/lib/db/schema';
+
+interface PrepaymentDialogProps {
+  loan: Loan | null;
+  onClose: () => void;
+}
+
+export function PrepaymentDialog({ loan, onClose }: PrepaymentDialogProps) {
+  return (
+    <Dialog open={loan !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        {/* Keyed so the form resets for each loan */}
+        {loan && <PrepaymentForm key={loan.id} loan={loan} onClose={onClose} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PrepaymentForm({ loan, onClose }: { loan: Loan; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const outstandingBalance = Number(loan.currentBalance);
+
+  const form = useForm<PrepaymentInput>({
+    resolver: zodResolver(prepaymentSchema),
+    defaultValues: {
+      mode: 'recast',
+      prepaymentDate: new Date().toISOString().split('T')[0],
+    },
+  });
+
+  const amount = useWatch({ control: form.control, name: 'amount' }) ?? 0;
+  const mode = useWatch({ control: form.control, name: 'mode' });
+  const preview =
+    amount > 0 && amount <= outstandingBalance
+      ? calculatePrepaymentTerms(loan, amount, mode)
+      : null;
+
+  const prepaymentMutation = useMutation({
+    mutationFn: async (data: PrepaymentInput) => {
+      const response = await fetch(`/api/loans/${loan.id}/prepayments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to record prepayment');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      // The balance, terms and unpaid installments all changed
+      queryClient.invalidateQueries({ queryKey: ['loans'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['budget'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      console.error('Error recording prepayment:', error);
+      alert(error.message || 'Failed to record prepayment. Please try again.');
+    },
+  });
+
+  const formatCurrency = (value: number | string) => {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(num);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Prepayment — {loan.lenderName}</DialogTitle>
+        <DialogDescription>
+          Pay a lump sum outside the installment schedule. Fees and interest
+          accrued since the last payment come out first; the rest goes to
+          principal. Outstanding balance: {formatCurrency(outstandingBalance)}
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((data) => prepaymentMutation.mutate(data))}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) =>
+                        field.onChange(parseFloat(e.target.value) || 0)
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="prepaymentDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="mode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>The lender applies it by</FormLabel>
+                <FormControl>
+                  <RadioGroup value={field.value} onValueChange={field.onChange}>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="recast" id="prepayment-recast" />
+                      <Label htmlFor="prepayment-recast" className="cursor-pointer">
+                        Recasting — same term, lower installment
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="shorten_term" id="prepayment-shorten" />
+                      <Label htmlFor="prepayment-shorten" className="cursor-pointer">
+                        Shortening the term — same installment, earlier payoff
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="note"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Note (Optional)</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value || ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {preview && (
+            <div className="grid grid-cols-3 gap-4 text-sm rounded-md border p-3">
+              <div>
+                <div className="text-muted-foreground mb-1">New Balance</div>
+                <div className="font-medium">{formatCurrency(preview.currentBalance)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground mb-1">Installment</div>
+                <div className="font-medium">
+                  {formatCurrency(preview.minimumPayment)}
+                  {preview.minimumPayment < Number(loan.minimumPayment) && (
+                    <span className="text-green-600">
+                      {' '}(was {formatCurrency(loan.minimumPayment)})
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground mb-1">Term</div>
+                <div className="font-medium">
+                  {preview.loanTermMonths} months
+                  {preview.loanTermMonths < loan.loanTermMonths && (
+                    <span className="text-green-600">
+                      {' '}(was {loan.loanTermMonths})
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {amount > outstandingBalance && (
+            <p className="text-sm text-destructive">
+              The prepayment is more than the outstanding balance.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={prepaymentMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={prepaymentMutation.isPending || amount > outstandingBalance}
+            >
+              {prepaymentMutation.isPending ? 'Processing...' : 'Record Prepayment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </>
+  );
+}
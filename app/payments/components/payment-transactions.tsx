@@ -0,0 +1,119 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { TableCell, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import type { PaymentTransaction } from '@/lib/db/schema';
+import { Trash2 } from 'lucide-react';
+
+interface PaymentTransactionsRowProps {
+  paymentId: number;
+  colSpan: number;
+  formatCurrency: (amount: number | string | null) => string;
+}
+
+const METHOD_LABELS: Record<PaymentTransaction['method'], string> = {
+  bank_transfer: 'Bank transfer',
+  gcash: 'GCash',
+  maya: 'Maya',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+// Query function
+async function fetchTransactions(paymentId: number): Promise<PaymentTransaction[]> {
+  const response = await fetch(`/api/payments/${paymentId}/transactions`);
+  if (!response.ok) throw new Error('Failed to fetch transactions');
+  return response.json();
+}
+
+// Mutation function - removing a transaction reverses it on the loan
+async function deleteTransaction(paymentId: number, transactionId: number): Promise<void> {
+  const response = await fetch(
+    `/api/payments/${paymentId}/transactions/${transactionId}`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) throw new Error('Failed to delete transaction');
+}
+
+export function PaymentTransactionsRow({
+  paymentId,
+  colSpan,
+  formatCurrency,
+}: PaymentTransactionsRowProps) {
+  const queryClient = useQueryClient();
+
+  const { data: transactions = [], isLoading } = useQuery({
+    queryKey: ['payments', 'transactions', paymentId],
+    queryFn: () => fetchTransactions(paymentId),
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (transactionId: number) => deleteTransaction(paymentId, transactionId),
+    onSuccess: () => {
+      // Invalidate all payment queries (the installment's paid total changed)
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      // Invalidate loan queries (the loan balance was restored)
+      queryClient.invalidateQueries({ queryKey: ['loans'] });
+      // Invalidate budget queries (for summary cards)
+      queryClient.invalidateQueries({ queryKey: ['budget'] });
+    },
+    onError: (error: Error) => {
+      alert(error.message);
+    },
+  });
+
+  function handleDelete(transactionId: number) {
+    if (!confirm('Remove this transaction? Its amount will be added back to the loan balance.')) {
+      return;
+    }
+    deleteMutation.mutate(transactionId);
+  }
+
+  return (
+    <TableRow className="bg-muted/40 hover:bg-muted/40">
+      <TableCell colSpan={colSpan} className="py-3">
+        {isLoading ? (
+          <div className="h-6 bg-muted animate-pulse rounded" />
+        ) : transactions.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No transactions recorded for this payment.
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {transactions.map((transaction) => (
+              <div
+                key={transaction.id}
+                className="flex items-center gap-4 text-sm"
+              >
+                <span className="w-24">
+                  {new Date(transaction.transactionDate).toLocaleDateString()}
+                </span>
+                <span className="w-28 font-medium">
+                  {formatCurrency(transaction.amount)}
+                </span>
+                <span className="w-28">{METHOD_LABELS[transaction.method]}</span>
+                <span className="w-40 text-muted-foreground">
+                  {transaction.referenceNumber || '—'}
+                </span>
+                <span className="flex-1 text-muted-foreground">
+                  {transaction.note}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(transaction.id)}
+                  disabled={deleteMutation.isPending}
+                  title="Remove transaction"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { Fragment, useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Card,
   CardContent,
@@ -25,6 +25,9 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from '@/components/ui/pagination';
+import { Button } from '@/components/ui/button';
+import { PaymentTransactionsRow } from './payment-transactions';
+import { ChevronDown, ChevronRight, Undo2 } from 'lucide-react';
 
 interface Payment {
   payment: {
@@ -33,6 +36,9 @@ interface Payment {
     dueDate: string;
     amountDue: number | string;
     amountPaid: number | string | null;
+    feesPaid: number | string | null;
+    interestPaid: number | string | null;
+    principalPaid: number | string | null;
     status: string;
     paidDate: string | null;
   };
@@ -67,8 +73,22 @@ async function fetchPaidPayments(page: number): Promise<PaymentsResponse> {
   return response.json();
 }
 
+// Mutation function - moving a paid payment back to pending reverses it on the loan
+async function undoPayment(paymentId: number): Promise<void> {
+  const response = await fetch(`/api/payments/${paymentId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ status: 'pending', paidDate: null }),
+  });
+  if (!response.ok) throw new Error('Failed to undo payment');
+}
+
 export function PaymentsHistory() {
+  const queryClient = useQueryClient();
   const [currentPage, setCurrentPage] = useState(1);
+  const [expandedPaymentId, setExpandedPaymentId] = useState<number | null>(null);
 
   // Fetch paid payments with TanStack Query (page number in query key for caching)
   const {
@@ -81,6 +101,28 @@ export function PaymentsHistory() {
     staleTime: 60 * 1000, // 1 minute
   });
 
+  const undoMutation = useMutation({
+    mutationFn: undoPayment,
+    onSuccess: () => {
+      // Invalidate all payment queries (history, overview and extra allocations)
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      // Invalidate loan queries (the loan balance was restored)
+      queryClient.invalidateQueries({ queryKey: ['loans'] });
+      // Invalidate budget queries (for summary cards)
+      queryClient.invalidateQueries({ queryKey: ['budget'] });
+    },
+    onError: (error: Error) => {
+      alert(error.message);
+    },
+  });
+
+  function handleUndo(paymentId: number) {
+    if (!confirm('Undo this payment? The amount will be added back to the loan balance.')) {
+      return;
+    }
+    undoMutation.mutate(paymentId);
+  }
+
   const payments = response?.data || [];
   const pagination = response?.pagination || {
     page: 1,
@@ -214,31 +256,80 @@ export function PaymentsHistory() {
                   <TableHead>Lender</TableHead>
                   <TableHead>Paid Date</TableHead>
                   <TableHead>Amount Paid</TableHead>
+                  <TableHead>Fees</TableHead>
+                  <TableHead>Interest</TableHead>
+                  <TableHead>Principal</TableHead>
                   <TableHead>Original Due Date</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {payments.map((item) => (
-                  <TableRow key={item.payment.id}>
-                    <TableCell className="font-medium">
-                      {item.loan.lenderName}
-                    </TableCell>
-                    <TableCell>
-                      {item.payment.paidDate
-                        ? new Date(item.payment.paidDate).toLocaleDateString()
-                        : '—'}
-                    </TableCell>
-                    <TableCell className="text-green-600 font-medium">
-                      {formatCurrency(item.payment.amountPaid)}
-                    </TableCell>
-                    <TableCell>
-                      {new Date(item.payment.dueDate).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-green-600">{item.payment.status}</span>
-                    </TableCell>
-                  </TableRow>
+                  <Fragment key={item.payment.id}>
+                    <TableRow>
+                      <TableCell className="font-medium">
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-1 hover:underline"
+                          onClick={() =>
+                            setExpandedPaymentId(
+                              expandedPaymentId === item.payment.id ? null : item.payment.id
+                            )
+                          }
+                          title="Show transactions"
+                        >
+                          {expandedPaymentId === item.payment.id ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                          {item.loan.lenderName}
+                        </button>
+                      </TableCell>
+                      <TableCell>
+                        {item.payment.paidDate
+                          ? new Date(item.payment.paidDate).toLocaleDateString()
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-green-600 font-medium">
+                        {formatCurrency(item.payment.amountPaid)}
+                      </TableCell>
+                      <TableCell>{formatCurrency(item.payment.feesPaid)}</TableCell>
+                      <TableCell>{formatCurrency(item.payment.interestPaid)}</TableCell>
+                      <TableCell
+                        className={
+                          Number(item.payment.principalPaid) < 0 ? 'text-red-600' : ''
+                        }
+                      >
+                        {formatCurrency(item.payment.principalPaid)}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(item.payment.dueDate).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-green-600">{item.payment.status}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleUndo(item.payment.id)}
+                          disabled={undoMutation.isPending}
+                          title="Undo payment"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedPaymentId === item.payment.id && (
+                      <PaymentTransactionsRow
+                        paymentId={item.payment.id}
+                        colSpan={9}
+                        formatCurrency={formatCurrency}
+                      />
+                    )}
+                  </Fragment>
                 ))}
               </TableBody>
             </Table>
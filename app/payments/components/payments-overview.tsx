@@ -25,9 +25,16 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Check } from 'lucide-react';
+import { Check, Wallet } from 'lucide-react';
 import type { Loan, MonthlyBudget } from '@/lib/db/schema';
-import { calculateStrategyProjections } from '@/lib/loan-calculations';
+import {
+  calculateStrategyProjections,
+  getPaymentsPerMonth,
+} from '@/lib/loan-calculations';
+import {
+  RecordPaymentDialog,
+  type RecordPaymentTarget,
+} from './record-payment-dialog';
 
 interface Payment {
   payment: {
@@ -43,6 +50,7 @@ interface Payment {
     id: number;
     lenderName: string;
     sourceType: string;
+    direction?: string;
     minimumPayment?: number | string;
   };
 }
@@ -83,7 +91,7 @@ async function fetchExtraPaymentAllocations(): Promise<Record<number, number>> {
   // Get strategy type from first loan (assuming all loans have same strategy)
   const strategyType =
     loans.length > 0 && loans[0].strategyType
-      ? (loans[0].strategyType as 'snowball' | 'avalanche' | 'custom')
+      ? loans[0].strategyType
       : null;
 
   // Calculate extra payment allocations
@@ -93,13 +101,26 @@ async function fetchExtraPaymentAllocations(): Promise<Record<number, number>> {
     strategyType
   );
 
-  return projections.extraPaymentAllocations;
+  // Allocations are monthly; spread them across each loan's installments
+  const perInstallmentAllocations: Record<number, number> = {};
+  loans.forEach((loan) => {
+    const monthlyExtra = projections.extraPaymentAllocations[loan.id];
+    if (monthlyExtra) {
+      perInstallmentAllocations[loan.id] =
+        Math.round(
+          (monthlyExtra / getPaymentsPerMonth(loan.paymentFrequency)) * 100
+        ) / 100;
+    }
+  });
+
+  return perInstallmentAllocations;
 }
 
 export function PaymentsOverview() {
   const queryClient = useQueryClient();
   const [modalOpen, setModalOpen] = useState(false);
   const [modalData, setModalData] = useState<PaymentModalData | null>(null);
+  const [recordTarget, setRecordTarget] = useState<RecordPaymentTarget | null>(null);
 
   // Fetch payments with TanStack Query
   const {
@@ -165,15 +186,16 @@ export function PaymentsOverview() {
         throw new Error('Invalid payment amount. Please try again.');
       }
 
-      const response = await fetch(`/api/payments/${paymentId}`, {
-        method: 'PUT',
+      // Anything above the amount due is prepaid principal
+      const response = await fetch(`/api/payments/${paymentId}/pay`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          status: 'paid',
-          amountPaid: amountPaid,
+          amount: amountPaid,
           paidDate: new Date().toISOString().split('T')[0],
+          overpayment: 'principal',
         }),
       });
 
@@ -244,11 +266,16 @@ export function PaymentsOverview() {
   };
 
   const upcomingPayments = payments
-    .filter((p) => p.payment.status === 'pending' || p.payment.status === 'upcoming')
+    .filter(
+      (p) =>
+        p.payment.status === 'pending' ||
+        p.payment.status === 'upcoming' ||
+        p.payment.status === 'partial'
+    )
     .sort((a, b) => (a.payment.dueDate > b.payment.dueDate ? 1 : -1));
 
   const overduePayments = payments.filter(
-    (p) => p.payment.status === 'overdue'
+    (p) => p.payment.status === 'overdue' || p.payment.status === 'missed'
   );
 
   if (loading) {
@@ -305,17 +332,29 @@ export function PaymentsOverview() {
               <TableBody>
                 {overduePayments.map((item) => {
                   const extraAllocation = extraPaymentAllocations[item.loan.id] || 0;
-                  const minimumPayment = Number(item.loan.minimumPayment || item.payment.amountDue);
+                  const amountPaid = Number(item.payment.amountPaid ?? 0);
+                  // What is left on this installment after any partial payments
+                  const minimumPayment = Number(item.payment.amountDue) - amountPaid;
                   return (
                     <TableRow key={item.payment.id}>
                       <TableCell className="font-medium">
                         {item.loan.lenderName}
+                        {item.loan.direction === 'lent' && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            Owed to you
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         {new Date(item.payment.dueDate).toLocaleDateString()}
                       </TableCell>
                       <TableCell>
                         {formatCurrency(item.payment.amountDue)}
+                        {amountPaid > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(amountPaid)} paid
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         {extraAllocation > 0.001 ? (
@@ -347,6 +386,23 @@ export function PaymentsOverview() {
                           <Check className="h-4 w-4 mr-1" />
                           {markPaidMutation.isPending ? 'Processing...' : 'Mark Paid'}
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="ml-2"
+                          onClick={() =>
+                            setRecordTarget({
+                              paymentId: item.payment.id,
+                              lenderName: item.loan.lenderName,
+                              dueDate: item.payment.dueDate,
+                              amountDue: Number(item.payment.amountDue),
+                              amountPaid,
+                            })
+                          }
+                          title="Record a partial or custom payment"
+                        >
+                          <Wallet className="h-4 w-4" />
+                        </Button>
                       </TableCell>
                     </TableRow>
                   );
@@ -381,17 +437,29 @@ export function PaymentsOverview() {
               <TableBody>
                 {upcomingPayments.map((item) => {
                   const extraAllocation = extraPaymentAllocations[item.loan.id] || 0;
-                  const minimumPayment = Number(item.loan.minimumPayment || item.payment.amountDue);
+                  const amountPaid = Number(item.payment.amountPaid ?? 0);
+                  // What is left on this installment after any partial payments
+                  const minimumPayment = Number(item.payment.amountDue) - amountPaid;
                   return (
                     <TableRow key={item.payment.id}>
                       <TableCell className="font-medium">
                         {item.loan.lenderName}
+                        {item.loan.direction === 'lent' && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            Owed to you
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         {new Date(item.payment.dueDate).toLocaleDateString()}
                       </TableCell>
                       <TableCell>
                         {formatCurrency(item.payment.amountDue)}
+                        {amountPaid > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(amountPaid)} paid
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         {extraAllocation > 0.001 ? (
@@ -424,6 +492,23 @@ export function PaymentsOverview() {
                           <Check className="h-4 w-4 mr-1" />
                           {markPaidMutation.isPending ? 'Processing...' : 'Mark Paid'}
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="ml-2"
+                          onClick={() =>
+                            setRecordTarget({
+                              paymentId: item.payment.id,
+                              lenderName: item.loan.lenderName,
+                              dueDate: item.payment.dueDate,
+                              amountDue: Number(item.payment.amountDue),
+                              amountPaid,
+                            })
+                          }
+                          title="Record a partial or custom payment"
+                        >
+                          <Wallet className="h-4 w-4" />
+                        </Button>
                       </TableCell>
                     </TableRow>
                   );
@@ -434,6 +519,11 @@ export function PaymentsOverview() {
         </CardContent>
       </Card>
 
+      <RecordPaymentDialog
+        target={recordTarget}
+        onClose={() => setRecordTarget(null)}
+      />
+
       {/* Payment Confirmation Modal */}
       <Dialog open={modalOpen} onOpenChange={setModalOpen}>
         <DialogContent>
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { PaymentMethod, RecordPaymentInput } from '@/lib/validations/payment-schema';
+
+export interface RecordPaymentTarget {
+  paymentId: number;
+  lenderName: string;
+  dueDate: string;
+  amountDue: number;
+  amountPaid: number;
+}
+
+interface RecordPaymentDialogProps {
+  target: RecordPaymentTarget | null;
+  onClose: () => void;
+}
+
+// Mutation function
+async function recordPayment(
+  paymentId: number,
+  data: RecordPaymentInput
+): Promise<void> {
+  const response = await fetch(`/api/payments/${paymentId}/pay`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to record payment. Please try again.');
+  }
+}
+
+export function RecordPaymentDialog({ target, onClose }: RecordPaymentDialogProps) {
+  return (
+    <Dialog open={target !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        {/* Keyed so the form resets for each installment */}
+        {target && (
+          <RecordPaymentForm key={target.paymentId} target={target} onClose={onClose} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecordPaymentForm({
+  target,
+  onClose,
+}: {
+  target: RecordPaymentTarget;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const remainingDue = Math.max(0, target.amountDue - target.amountPaid);
+  const [amount, setAmount] = useState(remainingDue.toFixed(2));
+  const [paidDate, setPaidDate] = useState(new Date().toISOString().split('T')[0]);
+  const [overpayment, setOverpayment] =
+    useState<NonNullable<RecordPaymentInput['overpayment']>>('principal');
+  const [carryOver, setCarryOver] = useState(false);
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [note, setNote] = useState('');
+
+  const parsedAmount = parseFloat(amount) || 0;
+  const isShort = parsedAmount > 0 && parsedAmount < remainingDue - 0.005;
+  const isOver = parsedAmount > remainingDue + 0.005;
+
+  const recordMutation = useMutation({
+    mutationFn: (data: RecordPaymentInput) => recordPayment(target.paymentId, data),
+    onSuccess: () => {
+      // Invalidate all payment queries (this will match ['payments'], ['payments', { status: 'overdue' }], etc.)
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      // Invalidate loan queries (loan balance was updated by the payment)
+      queryClient.invalidateQueries({ queryKey: ['loans'] });
+      // Invalidate budget queries (for summary cards)
+      queryClient.invalidateQueries({ queryKey: ['budget'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      console.error('Error recording payment:', error);
+      alert(error.message);
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(value);
+  };
+
+  function handleSubmit() {
+    if (parsedAmount <= 0) {
+      alert('Invalid payment amount. Please try again.');
+      return;
+    }
+    recordMutation.mutate({
+      amount: parsedAmount,
+      paidDate,
+      overpayment,
+      carryOver: isShort && carryOver,
+      method,
+      referenceNumber: referenceNumber.trim() || null,
+      note: note.trim() || null,
+    });
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Record Payment</DialogTitle>
+        <DialogDescription>
+          {target.lenderName} — due {new Date(target.dueDate).toLocaleDateString()}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2">
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="text-muted-foreground mb-1">Amount Due</div>
+            <div className="font-medium">{formatCurrency(target.amountDue)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground mb-1">Remaining</div>
+            <div className="font-medium">{formatCurrency(remainingDue)}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="payment-amount">Amount Paid</Label>
+            <Input
+              id="payment-amount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payment-date">Paid Date</Label>
+            <Input
+              id="payment-date"
+              type="date"
+              value={paidDate}
+              onChange={(e) => setPaidDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="payment-method">Method</Label>
+            <Select
+              value={method}
+              onValueChange={(value) => setMethod(value as PaymentMethod)}
+            >
+              <SelectTrigger id="payment-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bank_transfer">Bank transfer</SelectItem>
+                <SelectItem value="gcash">GCash</SelectItem>
+                <SelectItem value="maya">Maya</SelectItem>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payment-reference">Reference No.</Label>
+            <Input
+              id="payment-reference"
+              value={referenceNumber}
+              maxLength={100}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="payment-note">Note</Label>
+          <Input
+            id="payment-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        {isOver && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">
+              Apply the extra {formatCurrency(parsedAmount - remainingDue)} as
+            </div>
+            <RadioGroup
+              value={overpayment}
+              onValueChange={(value) =>
+                setOverpayment(value as NonNullable<RecordPaymentInput['overpayment']>)
+              }
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="principal" id="overpayment-principal" />
+                <Label htmlFor="overpayment-principal" className="cursor-pointer">
+                  Principal prepayment (future installments unchanged)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="advance" id="overpayment-advance" />
+                <Label htmlFor="overpayment-advance" className="cursor-pointer">
+                  Advance payment of the next installments
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+
+        {isShort && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">
+              {formatCurrency(remainingDue - parsedAmount)} will remain unpaid
+            </div>
+            <RadioGroup
+              value={carryOver ? 'carry' : 'partial'}
+              onValueChange={(value) => setCarryOver(value === 'carry')}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="partial" id="short-partial" />
+                <Label htmlFor="short-partial" className="cursor-pointer">
+                  Keep this installment open as partially paid
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="carry" id="short-carry" />
+                <Label htmlFor="short-carry" className="cursor-pointer">
+                  Close it and carry the remainder to the next installment
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={recordMutation.isPending}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={recordMutation.isPending}>
+          {recordMutation.isPending ? 'Processing...' : 'Record Payment'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
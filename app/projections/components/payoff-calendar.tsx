@@ -0,0 +1,92 @@
+'use client';
+
+import type { PaymentProjection, ProjectionMonth } from '@/lib/loan-calculations';
+
+interface PayoffCalendarProps {
+  projections: PaymentProjection[];
+  timeline: ProjectionMonth[];
+  lenderNames: Record<number, string>;
+  formatCurrency: (amount: number) => string;
+}
+
+const MONTH_LABELS = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+];
+
+export function PayoffCalendar({
+  projections,
+  timeline,
+  lenderNames,
+  formatCurrency,
+}: PayoffCalendarProps) {
+  if (timeline.length === 0) {
+    return null;
+  }
+
+  // Loans are paid off in the last month they appear in the timeline, as
+  // long as the simulation didn't stop before clearing them
+  const payoffsByMonth: Record<string, number[]> = {};
+  for (const projection of projections) {
+    const lastMonth = [...timeline]
+      .reverse()
+      .find((month) => month.loans.some((loan) => loan.loanId === projection.loanId));
+    const lastBalance = lastMonth?.loans.find(
+      (loan) => loan.loanId === projection.loanId
+    )?.balance;
+    if (!lastMonth || lastBalance === undefined || lastBalance > 0.01) continue;
+    const key = lastMonth.date.slice(0, 7);
+    payoffsByMonth[key] = [...(payoffsByMonth[key] ?? []), projection.loanId];
+  }
+
+  const firstYear = Number(timeline[0].date.slice(0, 4));
+  const lastYear = Number(timeline[timeline.length - 1].date.slice(0, 4));
+  const years = Array.from(
+    { length: lastYear - firstYear + 1 },
+    (_, index) => firstYear + index
+  );
+  const timelineByMonth = Object.fromEntries(
+    timeline.map((month) => [month.date.slice(0, 7), month])
+  );
+
+  return (
+    <div className="space-y-2">
+      {years.map((year) => (
+        <div key={year} className="grid grid-cols-[3rem_repeat(12,minmax(0,1fr))] gap-1 text-xs">
+          <div className="font-medium self-center">{year}</div>
+          {MONTH_LABELS.map((label, index) => {
+            const key = `${year}-${String(index + 1).padStart(2, '0')}`;
+            const month = timelineByMonth[key];
+            const payoffs = payoffsByMonth[key] ?? [];
+            return (
+              <div
+                key={key}
+                className={
+                  payoffs.length > 0
+                    ? 'rounded p-1 bg-green-100 text-green-900 font-medium'
+                    : month
+                      ? 'rounded p-1 bg-muted'
+                      : 'rounded p-1 text-muted-foreground/50'
+                }
+                title={
+                  month
+                    ? `${label} ${year}: ${formatCurrency(month.totalBalance)} remaining` +
+                      (month.rollover > 0 ? `, ${formatCurrency(month.rollover)} rolled over` : '') +
+                      (month.windfall > 0 ? `, ${formatCurrency(month.windfall)} windfall` : '')
+                    : undefined
+                }
+              >
+                <div>{label}</div>
+                {payoffs.map((loanId) => (
+                  <div key={loanId} className="truncate">
+                    {lenderNames[loanId] ?? `Loan #${loanId}`}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import type { ProjectionMonth } from '@/lib/loan-calculations';
+
+interface ProjectionTimelineChartProps {
+  timeline: ProjectionMonth[];
+  lenderNames: Record<number, string>;
+  formatCurrency: (amount: number) => string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 16 };
+
+// Series colors cycle through the theme's chart palette
+const SERIES_CLASSES = [
+  'fill-chart-1',
+  'fill-chart-2',
+  'fill-chart-3',
+  'fill-chart-4',
+  'fill-chart-5',
+];
+
+export function ProjectionTimelineChart({
+  timeline,
+  lenderNames,
+  formatCurrency,
+}: ProjectionTimelineChartProps) {
+  if (timeline.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No timeline available.
+      </div>
+    );
+  }
+
+  // Every loan that appears in the timeline, in the order they first appear
+  const loanIds = [
+    ...new Set(timeline.flatMap((month) => month.loans.map((loan) => loan.loanId))),
+  ];
+  const balanceOf = (month: ProjectionMonth, loanId: number) =>
+    month.loans.find((loan) => loan.loanId === loanId)?.balance ?? 0;
+
+  const maxBalance = Math.max(...timeline.map((month) => month.totalBalance), 1);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) =>
+    PADDING.left + (index / Math.max(timeline.length - 1, 1)) * plotWidth;
+  const y = (balance: number) =>
+    PADDING.top + plotHeight - (balance / maxBalance) * plotHeight;
+
+  // Stack each loan's balance on top of the loans before it
+  const bands = loanIds.map((loanId, seriesIndex) => {
+    const below = timeline.map((month) =>
+      loanIds
+        .slice(0, seriesIndex)
+        .reduce((sum, id) => sum + balanceOf(month, id), 0)
+    );
+    const above = timeline.map(
+      (month, index) => below[index] + balanceOf(month, loanId)
+    );
+    const top = above.map((value, index) => `${x(index)} ${y(value)}`);
+    const bottom = below
+      .map((value, index) => `${x(index)} ${y(value)}`)
+      .reverse();
+    return {
+      loanId,
+      path: `M ${top.join(' L ')} L ${bottom.join(' L ')} Z`,
+      className: SERIES_CLASSES[seriesIndex % SERIES_CLASSES.length],
+    };
+  });
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Projected balances over time"
+      >
+        {bands.map((band) => (
+          <path key={band.loanId} d={band.path} className={band.className} opacity={0.85}>
+            <title>{lenderNames[band.loanId] ?? `Loan #${band.loanId}`}</title>
+          </path>
+        ))}
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-border"
+        />
+        <text
+          x={PADDING.left}
+          y={PADDING.top - 4}
+          className="fill-muted-foreground text-[10px]"
+        >
+          {formatCurrency(maxBalance)}
+        </text>
+        <text
+          x={PADDING.left}
+          y={HEIGHT - 8}
+          className="fill-muted-foreground text-[10px]"
+        >
+          {new Date(timeline[0].date).toLocaleDateString()}
+        </text>
+        <text
+          x={WIDTH - PADDING.right}
+          y={HEIGHT - 8}
+          textAnchor="end"
+          className="fill-muted-foreground text-[10px]"
+        >
+          {new Date(timeline[timeline.length - 1].date).toLocaleDateString()}
+        </text>
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs">
+        {bands.map((band) => (
+          <div key={band.loanId} className="flex items-center gap-1">
+            <svg width={10} height={10} aria-hidden="true">
+              <rect width={10} height={10} className={band.className} />
+            </svg>
+            {lenderNames[band.loanId] ?? `Loan #${band.loanId}`}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
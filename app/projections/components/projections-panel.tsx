@@ -8,7 +8,11 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
-import type { StrategyProjection } from '@/lib/loan-calculations';
+import type { StrategyProjection, UpcomingRateChange } from '@/lib/loan-calculations';
+import type { MonthlyBudget, Windfall } from '@/lib/db/schema';
+import { WindfallPlanner } from './windfall-planner';
+import { ProjectionTimelineChart } from './projection-timeline-chart';
+import { PayoffCalendar } from './payoff-calendar';
 
 interface ProjectionsData {
   minimumPayment: {
@@ -19,6 +23,9 @@ interface ProjectionsData {
     strategyType: string | null;
     projections: StrategyProjection;
   };
+  windfalls: Windfall[];
+  scheduledBudgets: MonthlyBudget[];
+  rateChanges: UpcomingRateChange[];
   comparison: {
     interestSavings: number;
     timeSavings: number;
@@ -40,13 +47,14 @@ async function fetchStrategy(): Promise<StrategyResponse> {
   return response.json();
 }
 
-// Query function to fetch projections
+// Query function to fetch projections, including the month-by-month timeline
 async function fetchProjections(strategyType: string | null): Promise<ProjectionsData> {
-  const url = strategyType
-    ? `/api/loans/projections?strategy_type=${strategyType}`
-    : '/api/loans/projections';
-  
-  const response = await fetch(url, {
+  const params = new URLSearchParams({ detail: 'timeline' });
+  if (strategyType) {
+    params.set('strategy_type', strategyType);
+  }
+
+  const response = await fetch(`/api/loans/projections?${params}`, {
     cache: 'no-store',
     headers: {
       'Cache-Control': 'no-cache',
@@ -113,6 +121,10 @@ export function ProjectionsPanel() {
     };
   }, [queryClient]);
 
+  const lenderNames: Record<number, string> = Object.fromEntries(
+    loans.map((loan) => [loan.id, loan.lenderName])
+  );
+
   const loading = strategyLoading || projectionsLoading;
   const error = strategyError || projectionsError;
 
@@ -216,10 +228,49 @@ export function ProjectionsPanel() {
               <div className="text-sm text-muted-foreground">
                 Total Interest: {formatCurrency(projections.strategy.projections.totalInterest)}
               </div>
+              {projections.strategy.strategyType &&
+                projections.scheduledBudgets.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Includes budget changes:{' '}
+                  {projections.scheduledBudgets
+                    .map(
+                      (budget) =>
+                        `${formatCurrency(Number(budget.monthlyAllocation))} from ${new Date(budget.effectiveDate).toLocaleDateString()}`
+                    )
+                    .join(', ')}
+                </div>
+              )}
             </div>
           </div>
         </div>
 
+        {projections.rateChanges.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Upcoming Rate Changes</div>
+            {projections.rateChanges.map((change) => (
+              <div
+                key={`${change.loanId}-${change.effectiveDate}`}
+                className={
+                  change.isPromoExpiry
+                    ? 'flex justify-between text-sm p-2 rounded bg-amber-50 border border-amber-200 text-amber-900'
+                    : 'flex justify-between text-sm p-2 rounded bg-muted'
+                }
+              >
+                <span>
+                  {lenderNames[change.loanId] ?? `Loan #${change.loanId}`}
+                  {change.isPromoExpiry && (
+                    <span className="ml-2 font-medium">Promo rate ends</span>
+                  )}
+                </span>
+                <span>
+                  {change.previousRate}% → {change.interestRate}% on{' '}
+                  {new Date(change.effectiveDate).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="p-4 bg-green-50 border border-green-200 rounded">
           <div className="font-semibold text-green-900 mb-2">
             Strategy Benefits
@@ -271,6 +322,38 @@ export function ProjectionsPanel() {
             </div>
           )}
         </div>
+
+        {projections.strategy.projections.timeline && (
+          <>
+            <div>
+              <div className="text-sm font-medium mb-2">
+                Balance Over Time
+              </div>
+              <ProjectionTimelineChart
+                timeline={projections.strategy.projections.timeline}
+                lenderNames={lenderNames}
+                formatCurrency={formatCurrency}
+              />
+            </div>
+
+            <div>
+              <div className="text-sm font-medium mb-2">Payoff Calendar</div>
+              <PayoffCalendar
+                projections={projections.strategy.projections.loans}
+                timeline={projections.strategy.projections.timeline}
+                lenderNames={lenderNames}
+                formatCurrency={formatCurrency}
+              />
+            </div>
+          </>
+        )}
+
+        <WindfallPlanner
+          windfalls={projections.windfalls}
+          impacts={projections.strategy.projections.windfallImpacts}
+          formatCurrency={formatCurrency}
+          formatMonths={formatMonths}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,317 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  scenarioLoanSchema,
+  type ScenarioLoanInput,
+} from '@/lib/validations/scenario-schema';
+import { calculateLevelPayment, getPaymentsPerMonth } from '@/lib/loan-calculations';
+import type { ScenarioLoan } from '@/lib/db/schema';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface ScenarioLoanDialogProps {
+  scenarioId: number;
+  // The copy being edited, or null to add a new loan to the scenario
+  loan: ScenarioLoan | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ScenarioLoanDialog({
+  scenarioId,
+  loan,
+  open,
+  onClose,
+}: ScenarioLoanDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        {/* Keyed so the form resets for each loan */}
+        {open && (
+          <ScenarioLoanForm
+            key={loan?.id ?? 'new'}
+            scenarioId={scenarioId}
+            loan={loan}
+            onClose={onClose}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ScenarioLoanForm({
+  scenarioId,
+  loan,
+  onClose,
+}: Omit<ScenarioLoanDialogProps, 'open'>) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<ScenarioLoanInput>({
+    resolver: zodResolver(scenarioLoanSchema),
+    defaultValues: loan
+      ? {
+        lenderName: loan.lenderName,
+        sourceType: loan.sourceType,
+        principalAmount: Number(loan.principalAmount),
+        currentBalance: Number(loan.currentBalance),
+        interestRate: Number(loan.interestRate),
+        interestMethod: loan.interestMethod,
+        loanTermMonths: loan.loanTermMonths,
+        startDate: loan.startDate,
+        paymentFrequency: loan.paymentFrequency,
+        minimumPayment: Number(loan.minimumPayment),
+        priorityOrder: loan.priorityOrder,
+      }
+      : {
+        lenderName: '',
+        sourceType: 'bank',
+        interestMethod: 'diminishing',
+        startDate: new Date().toISOString().split('T')[0],
+        paymentFrequency: 'monthly',
+      },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ScenarioLoanInput) => {
+      const response = await fetch(
+        loan
+          ? `/api/scenarios/${scenarioId}/loans/${loan.id}`
+          : `/api/scenarios/${scenarioId}/loans`,
+        {
+          method: loan ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(data),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save scenario loan');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scenarios'] });
+      queryClient.invalidateQueries({ queryKey: ['loans', 'projections', 'comparison'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      console.error('Error saving scenario loan:', error);
+      alert(error.message || 'Failed to save scenario loan. Please try again.');
+    },
+  });
+
+  // Re-amortize the balance over the term, as a refinance would
+  function recalculateInstallment() {
+    const values = form.getValues();
+    const periods = Math.round(
+      values.loanTermMonths * getPaymentsPerMonth(values.paymentFrequency)
+    );
+    const installment = calculateLevelPayment(
+      values.currentBalance,
+      {
+        interestMethod: values.interestMethod ?? 'diminishing',
+        interestRate: values.interestRate,
+        principalAmount: values.principalAmount ?? values.currentBalance,
+        paymentFrequency: values.paymentFrequency,
+      },
+      periods
+    );
+    if (installment > 0) {
+      form.setValue('minimumPayment', installment, { shouldValidate: true });
+    }
+  }
+
+  const numberField = (
+    name:
+      | 'principalAmount'
+      | 'currentBalance'
+      | 'interestRate'
+      | 'minimumPayment'
+      | 'loanTermMonths',
+    label: string,
+    step = '0.01'
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step={step}
+              {...field}
+              value={field.value ?? ''}
+              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{loan ? `Edit ${loan.lenderName}` : 'Add Loan to Scenario'}</DialogTitle>
+        <DialogDescription>
+          Changes here only affect this scenario, never your real loans.
+        </DialogDescription>
+      </DialogHeader>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="lenderName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lender Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="sourceType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Source Type</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select source type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="bank">Bank</SelectItem>
+                      <SelectItem value="mobile_app">Mobile App</SelectItem>
+                      <SelectItem value="person">Person</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {numberField('principalAmount', 'Principal Amount')}
+            {numberField('currentBalance', 'Current Balance')}
+            {numberField('interestRate', 'Interest Rate (%)')}
+
+            <FormField
+              control={form.control}
+              name="interestMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Interest Method</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select interest method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="diminishing">Diminishing Balance (APR)</SelectItem>
+                      <SelectItem value="add_on">Add-On / Flat (per month)</SelectItem>
+                      <SelectItem value="simple">Simple Interest (per year)</SelectItem>
+                      <SelectItem value="zero_interest">Zero Interest</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {numberField('loanTermMonths', 'Loan Term (Months)', '1')}
+
+            <FormField
+              control={form.control}
+              name="paymentFrequency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Payment Frequency</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select frequency" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="bi_weekly">Bi-Weekly</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {numberField('minimumPayment', 'Installment')}
+
+            <div className="flex items-end">
+              <Button type="button" variant="outline" onClick={recalculateInstallment}>
+                Recalculate Installment
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </>
+  );
+}
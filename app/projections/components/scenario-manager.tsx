@@ -0,0 +1,329 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  STRATEGY_LABELS,
+  type StrategyType,
+} from '@/lib/loan-calculations';
+import type { Scenario, ScenarioLoan } from '@/lib/db/schema';
+import type { UpdateScenarioInput } from '@/lib/validations/scenario-schema';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { ScenarioLoanDialog } from './scenario-loan-dialog';
+
+type ScenarioWithLoans = Scenario & { loans: ScenarioLoan[] };
+
+// Query function to fetch saved scenarios
+async function fetchScenarios(): Promise<ScenarioWithLoans[]> {
+  const response = await fetch('/api/scenarios');
+  if (!response.ok) {
+    throw new Error('Failed to fetch scenarios');
+  }
+  return response.json();
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PH', {
+    style: 'currency',
+    currency: 'PHP',
+  }).format(amount);
+};
+
+export function ScenarioManager() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+
+  const { data: scenarios, isLoading } = useQuery({
+    queryKey: ['scenarios'],
+    queryFn: fetchScenarios,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (scenarioName: string) => {
+      const response = await fetch('/api/scenarios', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: scenarioName }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save scenario');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scenarios'] });
+      queryClient.invalidateQueries({ queryKey: ['loans', 'projections', 'comparison'] });
+      setName('');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving scenario:', error);
+      alert(error.message || 'Failed to save scenario. Please try again.');
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>What-If Scenarios</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) createMutation.mutate(name.trim());
+          }}
+          className="flex items-end gap-2"
+        >
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="scenario-name">New scenario</Label>
+            <Input
+              id="scenario-name"
+              placeholder="Refinance GCash at 8%"
+              value={name}
+              maxLength={255}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={createMutation.isPending || !name.trim()}>
+            Copy Current Plan
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="h-24 bg-muted animate-pulse rounded" />
+        ) : scenarios && scenarios.length > 0 ? (
+          scenarios.map((scenario) => (
+            <ScenarioEditor key={scenario.id} scenario={scenario} />
+          ))
+        ) : (
+          <div className="text-sm text-muted-foreground p-2">
+            No scenarios yet. Copy your current plan, then edit loans, the
+            budget or the strategy to compare without changing real data.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ScenarioEditor({ scenario }: { scenario: ScenarioWithLoans }) {
+  const queryClient = useQueryClient();
+  const [budget, setBudget] = useState(
+    scenario.monthlyAllocation !== null ? String(Number(scenario.monthlyAllocation)) : ''
+  );
+  const [editingLoan, setEditingLoan] = useState<ScenarioLoan | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  function invalidateScenarioQueries() {
+    queryClient.invalidateQueries({ queryKey: ['scenarios'] });
+    queryClient.invalidateQueries({ queryKey: ['loans', 'projections', 'comparison'] });
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: UpdateScenarioInput) => {
+      const response = await fetch(`/api/scenarios/${scenario.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update scenario');
+      }
+
+      return response.json();
+    },
+    onSuccess: invalidateScenarioQueries,
+    onError: (error: Error) => {
+      console.error('Error updating scenario:', error);
+      alert(error.message || 'Failed to update scenario. Please try again.');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/scenarios/${scenario.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to delete scenario');
+    },
+    onSuccess: invalidateScenarioQueries,
+  });
+
+  const deleteLoanMutation = useMutation({
+    mutationFn: async (loanId: number) => {
+      const response = await fetch(
+        `/api/scenarios/${scenario.id}/loans/${loanId}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) throw new Error('Failed to remove scenario loan');
+    },
+    onSuccess: invalidateScenarioQueries,
+  });
+
+  function openLoanDialog(loan: ScenarioLoan | null) {
+    setEditingLoan(loan);
+    setDialogOpen(true);
+  }
+
+  return (
+    <div className="border rounded p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="font-semibold">{scenario.name}</div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            if (confirm(`Delete the scenario "${scenario.name}"?`)) {
+              deleteMutation.mutate();
+            }
+          }}
+          disabled={deleteMutation.isPending}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <div className="space-y-2">
+          <Label>Strategy</Label>
+          <Select
+            value={scenario.strategyType ?? 'none'}
+            onValueChange={(value) =>
+              updateMutation.mutate({
+                strategyType: value === 'none' ? null : (value as StrategyType),
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No Strategy</SelectItem>
+              {(Object.keys(STRATEGY_LABELS) as StrategyType[]).map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>
+                  {STRATEGY_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            const allocation = parseFloat(budget);
+            updateMutation.mutate({
+              monthlyAllocation: allocation > 0 ? allocation : null,
+            });
+          }}
+          className="flex items-end gap-2"
+        >
+          <div className="flex-1 space-y-2">
+            <Label htmlFor={`scenario-budget-${scenario.id}`}>Monthly Budget</Label>
+            <Input
+              id={`scenario-budget-${scenario.id}`}
+              type="number"
+              step="0.01"
+              placeholder="Minimum payments only"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={updateMutation.isPending}>
+            Save
+          </Button>
+        </form>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Lender</TableHead>
+            <TableHead className="text-right">Balance</TableHead>
+            <TableHead className="text-right">Rate</TableHead>
+            <TableHead className="text-right">Installment</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {scenario.loans.map((loan) => (
+            <TableRow key={loan.id}>
+              <TableCell>
+                {loan.lenderName}
+                {loan.sourceLoanId === null && (
+                  <span className="ml-2 text-xs text-muted-foreground">New</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(Number(loan.currentBalance))}
+              </TableCell>
+              <TableCell className="text-right">{Number(loan.interestRate)}%</TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(Number(loan.minimumPayment))}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button variant="ghost" size="sm" onClick={() => openLoanDialog(loan)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteLoanMutation.mutate(loan.id)}
+                  disabled={deleteLoanMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Button variant="outline" size="sm" onClick={() => openLoanDialog(null)}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Loan
+      </Button>
+
+      <ScenarioLoanDialog
+        scenarioId={scenario.id}
+        loan={editingLoan}
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+      />
+    </div>
+  );
+}
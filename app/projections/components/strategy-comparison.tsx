@@ -0,0 +1,142 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type {
+  StrategyComparison as StrategyComparisonRow,
+  StrategyType,
+} from '@/lib/loan-calculations';
+
+interface ComparisonData {
+  strategies: StrategyComparisonRow[];
+  scenarios: StrategyComparisonRow[];
+  liveStrategyType: StrategyType | null;
+}
+
+// Query function to fetch every strategy's and scenario's projection summary
+async function fetchComparison(): Promise<ComparisonData> {
+  const response = await fetch('/api/loans/projections/comparison', {
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch strategy comparison');
+  }
+  return response.json();
+}
+
+export function StrategyComparison() {
+  // Nested under the projections key so budget and windfall changes refresh it
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['loans', 'projections', 'comparison'],
+    queryFn: fetchComparison,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(amount);
+  };
+
+  const formatDate = (date: Date | string | null) =>
+    date ? new Date(date).toLocaleDateString() : '—';
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Strategy Comparison</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-48 bg-muted animate-pulse rounded" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Strategy Comparison</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-destructive">
+            Error loading strategy comparison. Please try again.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const rows = [...data.strategies, ...data.scenarios];
+  const lowestInterest = Math.min(...rows.map((row) => row.totalInterest));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Strategy Comparison</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Strategy</TableHead>
+              <TableHead className="text-right">Total Interest</TableHead>
+              <TableHead>Debt-Free Date</TableHead>
+              <TableHead>First Payoff</TableHead>
+              <TableHead className="text-right">Loans Closed in 12 Months</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((strategy) => (
+              <TableRow
+                key={strategy.scenarioId ? `scenario-${strategy.scenarioId}` : strategy.name}
+                className={strategy.scenarioId ? 'bg-muted/50' : undefined}
+              >
+                <TableCell className="font-medium">
+                  {strategy.name}
+                  {strategy.scenarioId ? (
+                    <span className="ml-2 text-xs text-muted-foreground">Scenario</span>
+                  ) : (
+                    strategy.strategyType === data.liveStrategyType && (
+                      <span className="ml-2 text-xs text-primary">Live plan</span>
+                    )
+                  )}
+                </TableCell>
+                <TableCell
+                  className={
+                    strategy.totalInterest === lowestInterest
+                      ? 'text-right text-green-600 font-medium'
+                      : 'text-right'
+                  }
+                >
+                  {formatCurrency(strategy.totalInterest)}
+                </TableCell>
+                <TableCell>{formatDate(strategy.debtFreeDate)}</TableCell>
+                <TableCell>{formatDate(strategy.firstPayoffDate)}</TableCell>
+                <TableCell className="text-right">
+                  {strategy.loansClosedIn12Months}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
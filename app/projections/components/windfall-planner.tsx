@@ -0,0 +1,215 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { createWindfallSchema, type WindfallInput } from '@/lib/validations/windfall-schema';
+import type { WindfallImpact } from '@/lib/loan-calculations';
+import type { Windfall } from '@/lib/db/schema';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Trash2 } from 'lucide-react';
+
+interface WindfallPlannerProps {
+  windfalls: Windfall[];
+  impacts: WindfallImpact[];
+  formatCurrency: (amount: number) => string;
+  formatMonths: (months: number) => string;
+}
+
+export function WindfallPlanner({
+  windfalls,
+  impacts,
+  formatCurrency,
+  formatMonths,
+}: WindfallPlannerProps) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<WindfallInput>({
+    resolver: zodResolver(createWindfallSchema),
+    defaultValues: {
+      description: '',
+      windfallDate: new Date().toISOString().split('T')[0],
+    },
+  });
+
+  // Windfalls only feed the projections
+  function invalidateProjections() {
+    queryClient.invalidateQueries({ queryKey: ['loans', 'projections'] });
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (data: WindfallInput) => {
+      const response = await fetch('/api/windfalls', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add windfall');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProjections();
+      form.reset({
+        description: '',
+        windfallDate: new Date().toISOString().split('T')[0],
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error adding windfall:', error);
+      alert(error.message || 'Failed to add windfall. Please try again.');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (windfallId: number) => {
+      const response = await fetch(`/api/windfalls/${windfallId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to delete windfall');
+    },
+    onSuccess: invalidateProjections,
+  });
+
+  return (
+    <div>
+      <div className="text-sm font-medium mb-2">Planned Windfalls</div>
+
+      {windfalls.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Interest Saved</TableHead>
+              <TableHead className="text-right">Time Saved</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {windfalls.map((windfall) => {
+              const impact = impacts.find((item) => item.windfallId === windfall.id);
+              return (
+                <TableRow key={windfall.id}>
+                  <TableCell>
+                    {new Date(windfall.windfallDate).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>{windfall.description}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(Number(windfall.amount))}
+                  </TableCell>
+                  <TableCell className="text-right text-green-600">
+                    {impact ? formatCurrency(impact.interestSaved) : '—'}
+                  </TableCell>
+                  <TableCell className="text-right text-green-600">
+                    {impact && impact.monthsSaved > 0
+                      ? formatMonths(impact.monthsSaved)
+                      : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(windfall.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="text-sm text-muted-foreground p-2">
+          No windfalls planned. Add a 13th-month pay, bonus or tax refund to
+          see how much it saves.
+        </div>
+      )}
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+          className="grid grid-cols-4 gap-4 items-end mt-4"
+        >
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Input placeholder="13th-month pay" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="windfallDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" disabled={createMutation.isPending}>
+            Add Windfall
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+}
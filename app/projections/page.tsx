@@ -1,9 +1,13 @@
 import { ProjectionsPanel } from './components/projections-panel';
+import { StrategyComparison } from './components/strategy-comparison';
+import { ScenarioManager } from './components/scenario-manager';
 
 export default function ProjectionsPage() {
   return (
-    <div className="container mx-auto py-8">
+    <div className="container mx-auto py-8 space-y-6">
       <ProjectionsPanel />
+      <StrategyComparison />
+      <ScenarioManager />
     </div>
   );
 }
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."interest_method" AS ENUM('diminishing', 'add_on', 'zero_interest', 'simple');--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "interest_method" "interest_method" DEFAULT 'diminishing' NOT NULL;
\ No newline at end of file
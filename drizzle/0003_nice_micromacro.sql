@@ -0,0 +1,20 @@
+CREATE TYPE "public"."charge_type" AS ENUM('late_fee', 'processing_fee', 'insurance', 'penalty_interest', 'other');--> statement-breakpoint
+CREATE TYPE "public"."penalty_rule_type" AS ENUM('fixed', 'percent_per_day');--> statement-breakpoint
+CREATE TABLE "loan_charges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"loan_id" integer NOT NULL,
+	"payment_id" integer,
+	"charge_type" charge_type NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"charge_date" date NOT NULL,
+	"description" text,
+	"is_automatic" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "outstanding_charges" numeric(12, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "penalty_rule_type" "penalty_rule_type";--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "penalty_rate" numeric(12, 4);--> statement-breakpoint
+ALTER TABLE "loan_charges" ADD CONSTRAINT "loan_charges_loan_id_loans_id_fk" FOREIGN KEY ("loan_id") REFERENCES "public"."loans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "loan_charges" ADD CONSTRAINT "loan_charges_payment_id_upcoming_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."upcoming_payments"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
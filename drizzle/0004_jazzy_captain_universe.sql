@@ -0,0 +1,3 @@
+ALTER TABLE "upcoming_payments" ADD COLUMN "fees_paid" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "upcoming_payments" ADD COLUMN "interest_paid" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "upcoming_payments" ADD COLUMN "principal_paid" numeric(12, 2);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."balance_event_type" AS ENUM('opening_balance', 'payment', 'payment_reversal', 'charge', 'charge_reversal', 'manual_adjustment', 'interest_accrual', 'refinance');--> statement-breakpoint
+CREATE TABLE "balance_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"loan_id" integer NOT NULL,
+	"event_type" "balance_event_type" NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"balance_after" numeric(12, 2) NOT NULL,
+	"event_date" date NOT NULL,
+	"payment_id" integer,
+	"charge_id" integer,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "balance_events" ADD CONSTRAINT "balance_events_loan_id_loans_id_fk" FOREIGN KEY ("loan_id") REFERENCES "public"."loans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "balance_events" ADD CONSTRAINT "balance_events_payment_id_upcoming_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."upcoming_payments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "balance_events" ADD CONSTRAINT "balance_events_charge_id_loan_charges_id_fk" FOREIGN KEY ("charge_id") REFERENCES "public"."loan_charges"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "balance_events" ("loan_id", "event_type", "amount", "balance_after", "event_date", "description")
+SELECT "id", 'opening_balance', "current_balance", "current_balance", CURRENT_DATE, 'Balance when the ledger was introduced'
+FROM "loans";
@@ -0,0 +1,2 @@
+ALTER TABLE "loans" ADD COLUMN "payment_due_day" integer;--> statement-breakpoint
+UPDATE "loans" SET "payment_due_day" = EXTRACT(DAY FROM "next_payment_due_date");
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."payment_record_status" ADD VALUE 'partial';--> statement-breakpoint
+ALTER TABLE "upcoming_payments" ADD COLUMN "carried_over_amount" numeric(12, 2) DEFAULT '0' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."payment_method" AS ENUM('bank_transfer', 'gcash', 'maya', 'cash', 'other');--> statement-breakpoint
+CREATE TABLE "payment_transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_id" integer NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"transaction_date" date NOT NULL,
+	"method" "payment_method" DEFAULT 'other' NOT NULL,
+	"reference_number" varchar(100),
+	"note" text,
+	"fees_paid" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"interest_paid" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"principal_paid" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_payment_id_upcoming_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."upcoming_payments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "payment_transactions" ("payment_id", "amount", "transaction_date", "method", "fees_paid", "interest_paid", "principal_paid")
+SELECT "id", "amount_paid", COALESCE("paid_date", "due_date"), 'other', COALESCE("fees_paid", 0), COALESCE("interest_paid", 0), COALESCE("principal_paid", "amount_paid")
+FROM "upcoming_payments"
+WHERE "status" IN ('paid', 'partial') AND "amount_paid" > 0;
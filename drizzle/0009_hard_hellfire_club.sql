@@ -0,0 +1 @@
+ALTER TYPE "public"."balance_event_type" ADD VALUE 'prepayment';
\ No newline at end of file
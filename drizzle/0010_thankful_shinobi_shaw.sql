@@ -0,0 +1,8 @@
+CREATE TABLE "windfalls" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"description" varchar(255) NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"windfall_date" date NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
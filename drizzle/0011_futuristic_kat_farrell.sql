@@ -0,0 +1,2 @@
+ALTER TABLE "monthly_budget" ADD COLUMN "is_scheduled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "monthly_budget" SET "is_scheduled" = true WHERE "is_active" = false AND "effective_date" > CURRENT_DATE;
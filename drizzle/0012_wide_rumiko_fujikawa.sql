@@ -0,0 +1,9 @@
+ALTER TYPE "public"."strategy_type" ADD VALUE 'interest_cost';--> statement-breakpoint
+ALTER TYPE "public"."strategy_type" ADD VALUE 'cash_flow_index';--> statement-breakpoint
+ALTER TYPE "public"."strategy_type" ADD VALUE 'snowflake';--> statement-breakpoint
+ALTER TYPE "public"."strategy_type" ADD VALUE 'lender_type';--> statement-breakpoint
+CREATE TABLE "strategy_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"snowflake_loans_to_close" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
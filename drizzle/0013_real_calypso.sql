@@ -0,0 +1,32 @@
+CREATE TABLE "scenario_loans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scenario_id" integer NOT NULL,
+	"source_loan_id" integer,
+	"lender_name" varchar(255) NOT NULL,
+	"source_type" "source_type" NOT NULL,
+	"principal_amount" numeric(12, 2) NOT NULL,
+	"current_balance" numeric(12, 2) NOT NULL,
+	"outstanding_charges" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"interest_rate" numeric(5, 2) NOT NULL,
+	"interest_method" "interest_method" DEFAULT 'diminishing' NOT NULL,
+	"loan_term_months" integer NOT NULL,
+	"start_date" date NOT NULL,
+	"payment_frequency" "payment_frequency" NOT NULL,
+	"minimum_payment" numeric(12, 2) NOT NULL,
+	"priority_order" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scenarios" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"strategy_type" "strategy_type",
+	"monthly_allocation" numeric(12, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scenario_loans" ADD CONSTRAINT "scenario_loans_scenario_id_scenarios_id_fk" FOREIGN KEY ("scenario_id") REFERENCES "public"."scenarios"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scenario_loans" ADD CONSTRAINT "scenario_loans_source_loan_id_loans_id_fk" FOREIGN KEY ("source_loan_id") REFERENCES "public"."loans"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
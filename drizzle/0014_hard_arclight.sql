@@ -0,0 +1,2 @@
+ALTER TABLE "loans" ADD COLUMN "consolidated_into_loan_id" integer;--> statement-breakpoint
+ALTER TABLE "loans" ADD CONSTRAINT "loans_consolidated_into_loan_id_loans_id_fk" FOREIGN KEY ("consolidated_into_loan_id") REFERENCES "public"."loans"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
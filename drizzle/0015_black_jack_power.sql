@@ -0,0 +1,9 @@
+CREATE TABLE "loan_rate_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"loan_id" integer NOT NULL,
+	"effective_date" date NOT NULL,
+	"interest_rate" numeric(5, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "loan_rate_changes" ADD CONSTRAINT "loan_rate_changes_loan_id_loans_id_fk" FOREIGN KEY ("loan_id") REFERENCES "public"."loans"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TYPE "public"."account_type" AS ENUM('installment', 'revolving');--> statement-breakpoint
+ALTER TYPE "public"."charge_type" ADD VALUE 'purchase';--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "account_type" "account_type" DEFAULT 'installment' NOT NULL;--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "credit_limit" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "statement_day" integer;--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "minimum_payment_percent" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "minimum_payment_floor" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "scenario_loans" ADD COLUMN "account_type" "account_type" DEFAULT 'installment' NOT NULL;--> statement-breakpoint
+ALTER TABLE "scenario_loans" ADD COLUMN "minimum_payment_percent" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "scenario_loans" ADD COLUMN "minimum_payment_floor" numeric(12, 2);
\ No newline at end of file
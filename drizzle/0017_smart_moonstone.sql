@@ -0,0 +1,5 @@
+CREATE TYPE "public"."minimum_payment_rule" AS ENUM('fixed', 'percent_of_balance', 'interest_plus_percent');--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "minimum_payment_rule" "minimum_payment_rule" DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "scenario_loans" ADD COLUMN "minimum_payment_rule" "minimum_payment_rule" DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+UPDATE "loans" SET "minimum_payment_rule" = 'percent_of_balance' WHERE "account_type" = 'revolving';--> statement-breakpoint
+UPDATE "scenario_loans" SET "minimum_payment_rule" = 'percent_of_balance' WHERE "account_type" = 'revolving';
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."loan_direction" AS ENUM('borrowed', 'lent');--> statement-breakpoint
+ALTER TABLE "loans" ADD COLUMN "direction" "loan_direction" DEFAULT 'borrowed' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "scenario_loan_rate_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scenario_loan_id" integer NOT NULL,
+	"effective_date" date NOT NULL,
+	"interest_rate" numeric(5, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scenario_loan_rate_changes" ADD CONSTRAINT "scenario_loan_rate_changes_scenario_loan_id_scenario_loans_id_fk" FOREIGN KEY ("scenario_loan_id") REFERENCES "public"."scenario_loans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "scenario_loan_rate_changes" ("scenario_loan_id", "effective_date", "interest_rate")
+SELECT "scenario_loans"."id", "loan_rate_changes"."effective_date", "loan_rate_changes"."interest_rate"
+FROM "scenario_loans"
+INNER JOIN "loan_rate_changes" ON "loan_rate_changes"."loan_id" = "scenario_loans"."source_loan_id";
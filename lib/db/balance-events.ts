@@ -0,0 +1,49 @@
+import { db } from './index';
+import { balanceEvents, type NewBalanceEvent } from './schema';
+import { toDateString } from '../payment-schedule';
+import { sql, type SQL } from 'drizzle-orm';
+
+export type BalanceEventType = NewBalanceEvent['eventType'];
+
+/**
+ * Reference the row just inserted into a serial table earlier in the same
+ * batch, for linking an event to a payment or charge created alongside it
+ */
+export function lastInsertedId(
+  table:
+    | 'loans'
+    | 'upcoming_payments'
+    | 'loan_charges'
+    | 'scenarios'
+    | 'scenario_loans'
+) {
+  return sql<number>`currval(pg_get_serial_sequence(${table}, 'id'))`;
+}
+
+/**
+ * Build the insert that appends an event to a loan's balance ledger.
+ * Events are never updated or deleted; corrections are new events.
+ */
+export function recordBalanceEvent(event: {
+  loanId: number | SQL;
+  eventType: BalanceEventType;
+  amount: number;
+  balanceAfter: number;
+  eventDate?: string;
+  paymentId?: number | SQL | null;
+  chargeId?: number | SQL | null;
+  description?: string | null;
+}) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return db.insert(balanceEvents).values({
+    loanId: event.loanId,
+    eventType: event.eventType,
+    amount: round(event.amount),
+    balanceAfter: round(Math.max(0, event.balanceAfter)),
+    eventDate: event.eventDate ?? toDateString(new Date()),
+    paymentId: event.paymentId ?? null,
+    chargeId: event.chargeId ?? null,
+    description: event.description ?? null,
+  });
+}
@@ -0,0 +1,91 @@
+import { db } from './index';
+import { monthlyBudget, type MonthlyBudget } from './schema';
+import { toDateString } from '../payment-schedule';
+import { eq, and, lte, asc, desc, inArray } from 'drizzle-orm';
+
+/**
+ * Work out whether a budget saved now is active or scheduled: a budget
+ * dated in the future waits for its effective date instead of taking over
+ */
+export function resolveBudgetActivation(
+  effectiveDate: string,
+  isActive: boolean,
+  asOf: string = toDateString(new Date())
+): Pick<MonthlyBudget, 'isActive' | 'isScheduled'> {
+  if (effectiveDate > asOf) {
+    return { isActive: false, isScheduled: true };
+  }
+  return { isActive, isScheduled: false };
+}
+
+/**
+ * Activate the latest scheduled budget whose effective date has arrived.
+ * Earlier scheduled budgets that were overtaken are no longer scheduled.
+ * Returns the newly active budget, if any.
+ */
+export async function activateDueBudgets(
+  asOf: string = toDateString(new Date())
+): Promise<MonthlyBudget | null> {
+  const dueBudgets = await db
+    .select()
+    .from(monthlyBudget)
+    .where(
+      and(
+        eq(monthlyBudget.isScheduled, true),
+        lte(monthlyBudget.effectiveDate, asOf)
+      )
+    )
+    .orderBy(desc(monthlyBudget.effectiveDate), desc(monthlyBudget.createdAt));
+
+  if (dueBudgets.length === 0) {
+    return null;
+  }
+
+  const [, , activated] = await db.batch([
+    db
+      .update(monthlyBudget)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(monthlyBudget.isActive, true)),
+    db
+      .update(monthlyBudget)
+      .set({ isScheduled: false, updatedAt: new Date() })
+      .where(
+        inArray(
+          monthlyBudget.id,
+          dueBudgets.map((budget) => budget.id)
+        )
+      ),
+    db
+      .update(monthlyBudget)
+      .set({ isActive: true, updatedAt: new Date() })
+      .where(eq(monthlyBudget.id, dueBudgets[0].id))
+      .returning(),
+  ]);
+
+  return activated[0] ?? null;
+}
+
+/**
+ * Get the active budget. Scheduled budgets take over when the status
+ * update runs, not on read.
+ */
+export async function getActiveBudget(): Promise<MonthlyBudget | null> {
+  const activeBudget = await db
+    .select()
+    .from(monthlyBudget)
+    .where(eq(monthlyBudget.isActive, true))
+    .limit(1);
+
+  return activeBudget.length > 0 ? activeBudget[0] : null;
+}
+
+/**
+ * Get the budgets waiting for their effective date, soonest first
+ */
+export async function getScheduledBudgets(): Promise<MonthlyBudget[]> {
+  return db
+    .select()
+    .from(monthlyBudget)
+    .where(eq(monthlyBudget.isScheduled, true))
+    .orderBy(asc(monthlyBudget.effectiveDate));
+}
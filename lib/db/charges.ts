@@ -0,0 +1,203 @@
+import { db, runInBatch } from './index';
+import {
+  loanCharges,
+  loans,
+  upcomingPayments,
+  type Loan,
+  type LoanCharge,
+} from './schema';
+import { calculatePenaltyAmount, wasAutoClosed } from '../loan-calculations';
+import {
+  addPaymentPeriods,
+  daysBetween,
+  getPaymentDueDay,
+  toDateString,
+} from '../payment-schedule';
+import { lastInsertedId, recordBalanceEvent } from './balance-events';
+import { eq, and, ne, gt, lt, sql } from 'drizzle-orm';
+
+/**
+ * Build the update that moves a loan's balance and outstanding charges by
+ * the same amount (positive when a charge is added, negative when removed).
+ * Purchases on a revolving account bear interest, so they only move the
+ * balance.
+ */
+export function adjustLoanCharges(
+  loanId: number,
+  delta: number,
+  chargeType?: LoanCharge['chargeType']
+) {
+  return db
+    .update(loans)
+    .set({
+      currentBalance: sql`greatest(0, ${loans.currentBalance} + ${delta})`,
+      ...(chargeType !== 'purchase'
+        ? { outstandingCharges: sql`greatest(0, ${loans.outstandingCharges} + ${delta})` }
+        : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(loans.id, loanId));
+}
+
+/**
+ * Build the update that reopens a revolving account paid off to zero when a
+ * purchase is charged to it, due from the first due date after the purchase.
+ * Accounts closed by hand or by a consolidation stay closed.
+ */
+export function buildReopenAccountQueries(loan: Loan, purchaseDate: string) {
+  if (!wasAutoClosed(loan)) {
+    return [];
+  }
+
+  let nextPaymentDueDate = loan.nextPaymentDueDate;
+  let periods = 0;
+  while (nextPaymentDueDate <= purchaseDate) {
+    periods++;
+    nextPaymentDueDate = addPaymentPeriods(
+      loan.nextPaymentDueDate,
+      loan.paymentFrequency,
+      periods,
+      getPaymentDueDay(loan)
+    );
+  }
+
+  return [
+    db
+      .update(loans)
+      .set({ isActive: true, nextPaymentDueDate, updatedAt: new Date() })
+      .where(and(eq(loans.id, loan.id), eq(loans.isActive, false))),
+  ];
+}
+
+/**
+ * Total the purchases charged to a loan after a date
+ */
+export async function getPurchasesSince(
+  loanId: number,
+  date: string
+): Promise<number> {
+  const [purchases] = await db
+    .select({ total: sql<string>`coalesce(sum(${loanCharges.amount}), 0)` })
+    .from(loanCharges)
+    .where(
+      and(
+        eq(loanCharges.loanId, loanId),
+        eq(loanCharges.chargeType, 'purchase'),
+        gt(loanCharges.chargeDate, date)
+      )
+    );
+
+  return Number(purchases.total);
+}
+
+/**
+ * Accrue automatic penalties on a loan's overdue installments according to
+ * its penalty rule. Each installment gets one automatic charge that is
+ * re-priced on every run, so accrual is safe to repeat.
+ */
+export async function accrueLoanPenalties(
+  loan: Loan,
+  asOf: string = toDateString(new Date())
+) {
+  if (!loan.penaltyRuleType || !Number(loan.penaltyRate)) {
+    return { chargesCreated: 0, chargesUpdated: 0, totalAccrued: 0 };
+  }
+
+  const [overduePayments, automaticCharges] = await Promise.all([
+    db
+      .select()
+      .from(upcomingPayments)
+      .where(
+        and(
+          eq(upcomingPayments.loanId, loan.id),
+          ne(upcomingPayments.status, 'paid'),
+          lt(upcomingPayments.dueDate, asOf)
+        )
+      ),
+    db
+      .select()
+      .from(loanCharges)
+      .where(
+        and(eq(loanCharges.loanId, loan.id), eq(loanCharges.isAutomatic, true))
+      ),
+  ]);
+
+  const chargeType =
+    loan.penaltyRuleType === 'fixed' ? 'late_fee' : 'penalty_interest';
+  const queries = [];
+  let chargesCreated = 0;
+  let chargesUpdated = 0;
+  let totalAccrued = 0;
+  let balance = Number(loan.currentBalance);
+
+  for (const payment of overduePayments) {
+    const daysOverdue = daysBetween(payment.dueDate, asOf);
+    const unpaidAmount =
+      Number(payment.amountDue) - Number(payment.amountPaid ?? 0);
+    const penalty = calculatePenaltyAmount(loan, unpaidAmount, daysOverdue);
+    const existingCharge = automaticCharges.find(
+      (charge) => charge.paymentId === payment.id
+    );
+
+    if (!existingCharge) {
+      if (penalty <= 0) continue;
+      balance += penalty;
+      queries.push(
+        db.insert(loanCharges).values({
+          loanId: loan.id,
+          paymentId: payment.id,
+          chargeType,
+          amount: penalty,
+          chargeDate: asOf,
+          description: `Penalty for installment due ${payment.dueDate}`,
+          isAutomatic: true,
+        }),
+        recordBalanceEvent({
+          loanId: loan.id,
+          eventType: 'charge',
+          amount: penalty,
+          balanceAfter: balance,
+          eventDate: asOf,
+          chargeId: lastInsertedId('loan_charges'),
+          description: `Penalty for installment due ${payment.dueDate}`,
+        })
+      );
+      chargesCreated++;
+      totalAccrued += penalty;
+      continue;
+    }
+
+    const delta = penalty - Number(existingCharge.amount);
+    if (Math.abs(delta) < 0.01) continue;
+    balance += delta;
+
+    queries.push(
+      db
+        .update(loanCharges)
+        .set({ amount: penalty, chargeDate: asOf, updatedAt: new Date() })
+        .where(eq(loanCharges.id, existingCharge.id)),
+      recordBalanceEvent({
+        loanId: loan.id,
+        eventType: delta > 0 ? 'charge' : 'charge_reversal',
+        amount: delta,
+        balanceAfter: balance,
+        eventDate: asOf,
+        chargeId: existingCharge.id,
+        description: `Penalty re-priced for installment due ${payment.dueDate}`,
+      })
+    );
+    chargesUpdated++;
+    totalAccrued += delta;
+  }
+
+  if (queries.length > 0) {
+    queries.push(adjustLoanCharges(loan.id, totalAccrued));
+    await runInBatch(queries);
+  }
+
+  return {
+    chargesCreated,
+    chargesUpdated,
+    totalAccrued: Math.round(totalAccrued * 100) / 100,
+  };
+}
@@ -0,0 +1,151 @@
+import { db } from './index';
+import { loans, upcomingPayments, type Loan } from './schema';
+import { lastInsertedId, recordBalanceEvent } from './balance-events';
+import { generatePaymentSchedule, type ConsolidationPlan } from '../loan-calculations';
+import type { ConsolidationInput } from '../validations/consolidation-schema';
+import { and, eq, gt, inArray, isNotNull, isNull, ne, or, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+
+// Raised inside the batch when a source loan was already closed
+const CONFLICT_MARKER = 'consolidation_conflict';
+
+/**
+ * Whether a consolidation batch failed because another request closed one
+ * of its source loans first (e.g. a double submit)
+ */
+export function isConsolidationConflict(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current.message.includes(CONFLICT_MARKER)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Build the queries that execute a consolidation in one batch: the new loan,
+ * its opening balance and schedule, then each source loan closed at zero and
+ * linked to it. Only loans still active are closed, and the batch fails
+ * unless every source loan was closed by it. The new loan's insert must stay
+ * first so the queries after it can reference its id.
+ */
+export function buildConsolidationQueries(
+  sourceLoans: Loan[],
+  input: ConsolidationInput,
+  plan: ConsolidationPlan
+) {
+  const newLoanId = lastInsertedId('loans');
+  const installments = generatePaymentSchedule(plan.newLoan);
+
+  const insertLoan = db
+    .insert(loans)
+    .values({
+      ...plan.newLoan,
+      sourceType: input.sourceType,
+      lenderName: input.lenderName,
+      accountNumber: input.accountNumber ?? null,
+      paymentStatus: 'current',
+      // The live strategy applies to every active loan
+      strategyType: sourceLoans[0]?.strategyType ?? null,
+    })
+    .returning();
+
+  const followUps: BatchItem<'pg'>[] = [
+    recordBalanceEvent({
+      loanId: newLoanId,
+      eventType: 'opening_balance',
+      amount: plan.newLoan.currentBalance,
+      balanceAfter: plan.newLoan.currentBalance,
+      eventDate: input.startDate,
+      description: `Consolidation of ${sourceLoans.map((loan) => loan.lenderName).join(', ')}`,
+    }),
+  ];
+
+  if (installments.length > 0) {
+    followUps.push(
+      db.insert(upcomingPayments).values(
+        installments.map((installment) => ({
+          loanId: newLoanId,
+          dueDate: installment.dueDate,
+          amountDue: installment.amountDue,
+          status: 'pending' as const,
+        }))
+      )
+    );
+  }
+
+  for (const loan of sourceLoans) {
+    followUps.push(
+      db
+        .update(loans)
+        .set({
+          currentBalance: 0,
+          outstandingCharges: 0,
+          isActive: false,
+          consolidatedIntoLoanId: newLoanId,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(loans.id, loan.id), eq(loans.isActive, true))),
+      recordBalanceEvent({
+        loanId: loan.id,
+        eventType: 'refinance',
+        amount: -Number(loan.currentBalance),
+        balanceAfter: 0,
+        eventDate: input.startDate,
+        description: `Paid off by consolidation into ${input.lenderName}`,
+      })
+    );
+  }
+
+  // Casting the marker fails the batch, rolling back the new loan
+  followUps.push(
+    db
+      .select({
+        closed: sql<number>`cast(case when count(*) = ${sourceLoans.length} then '1' else ${CONFLICT_MARKER} end as integer)`,
+      })
+      .from(loans)
+      .where(
+        and(
+          inArray(
+            loans.id,
+            sourceLoans.map((loan) => loan.id)
+          ),
+          eq(loans.consolidatedIntoLoanId, newLoanId)
+        )
+      )
+  );
+
+  // Installments not fully paid, missed or part-paid ones included, are
+  // settled by the payoff. Those with money posted are closed so their
+  // payment history stays; the rest are dropped.
+  const sourceInstallments = and(
+    inArray(
+      upcomingPayments.loanId,
+      sourceLoans.map((loan) => loan.id)
+    ),
+    ne(upcomingPayments.status, 'paid')
+  );
+  const hasPostedPayment = or(
+    eq(upcomingPayments.status, 'partial'),
+    isNotNull(upcomingPayments.principalPaid),
+    gt(upcomingPayments.amountPaid, 0)
+  );
+  followUps.push(
+    db
+      .update(upcomingPayments)
+      .set({ status: 'paid', updatedAt: new Date() })
+      .where(and(sourceInstallments, hasPostedPayment)),
+    db
+      .delete(upcomingPayments)
+      .where(
+        and(
+          sourceInstallments,
+          ne(upcomingPayments.status, 'partial'),
+          isNull(upcomingPayments.principalPaid),
+          or(isNull(upcomingPayments.amountPaid), eq(upcomingPayments.amountPaid, 0))
+        )
+      )
+  );
+
+  return [insertLoan, ...followUps] as [typeof insertLoan, ...BatchItem<'pg'>[]];
+}
@@ -1,5 +1,6 @@
 import { drizzle } from 'drizzle-orm/neon-http';
 import { neon } from '@neondatabase/serverless';
+import type { BatchItem } from 'drizzle-orm/batch';
 import * as schema from './schema';
 
 if (!process.env.DATABASE_URL) {
@@ -8,3 +9,14 @@ if (!process.env.DATABASE_URL) {
 
 const sql = neon(process.env.DATABASE_URL);
 export const db = drizzle(sql, { schema });
+
+/**
+ * Run a dynamic list of queries atomically in one batch transaction
+ * (the neon-http driver has no interactive transactions)
+ */
+export async function runInBatch(queries: BatchItem<'pg'>[]) {
+  if (queries.length === 0) {
+    return [];
+  }
+  return db.batch(queries as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+}
@@ -0,0 +1,89 @@
+import { db } from './index';
+import { paymentTransactions, type PaymentTransaction } from './schema';
+import type { PaymentSplit } from '../loan-calculations';
+import type { PaymentMethod } from '../validations/payment-schema';
+import { eq, asc, type SQL } from 'drizzle-orm';
+
+export interface PaymentTransactionDetails {
+  method?: PaymentMethod;
+  referenceNumber?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Build the insert for one transfer paid against an installment
+ */
+export function recordPaymentTransaction(
+  transaction: PaymentTransactionDetails & {
+    paymentId: number | SQL;
+    amount: number;
+    transactionDate: string;
+    split: PaymentSplit;
+  }
+) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return db.insert(paymentTransactions).values({
+    paymentId: transaction.paymentId,
+    amount: round(transaction.amount),
+    transactionDate: transaction.transactionDate,
+    method: transaction.method ?? 'other',
+    referenceNumber: transaction.referenceNumber ?? null,
+    note: transaction.note ?? null,
+    feesPaid: round(transaction.split.feesPaid),
+    interestPaid: round(transaction.split.interestPaid),
+    principalPaid: round(transaction.split.principalPaid),
+  });
+}
+
+/**
+ * Get the transactions paid against an installment, oldest first
+ */
+export async function getPaymentTransactions(paymentId: number) {
+  return db
+    .select()
+    .from(paymentTransactions)
+    .where(eq(paymentTransactions.paymentId, paymentId))
+    .orderBy(
+      asc(paymentTransactions.transactionDate),
+      asc(paymentTransactions.id)
+    );
+}
+
+/**
+ * Total an installment's transactions into its amount paid, split and the
+ * date of the latest transfer
+ */
+export function summarizeTransactions(
+  transactions: Pick<
+    PaymentTransaction,
+    'amount' | 'transactionDate' | 'feesPaid' | 'interestPaid' | 'principalPaid'
+  >[]
+) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const total = (field: 'amount' | 'feesPaid' | 'interestPaid' | 'principalPaid') =>
+    round(transactions.reduce((sum, transaction) => sum + Number(transaction[field]), 0));
+
+  return {
+    amountPaid: total('amount'),
+    feesPaid: total('feesPaid'),
+    interestPaid: total('interestPaid'),
+    principalPaid: total('principalPaid'),
+    paidDate:
+      transactions.length > 0
+        ? transactions
+          .map((transaction) => transaction.transactionDate)
+          .reduce((latest, date) => (date > latest ? date : latest))
+        : null,
+  };
+}
+
+/**
+ * Build the delete that clears every transaction on an installment, used
+ * when its payment is undone or re-entered as a single amount
+ */
+export function clearPaymentTransactions(paymentId: number) {
+  return db
+    .delete(paymentTransactions)
+    .where(eq(paymentTransactions.paymentId, paymentId));
+}
@@ -0,0 +1,621 @@
+import { db } from './index';
+import {
+  balanceEvents,
+  loans,
+  upcomingPayments,
+  paymentTransactions,
+  type Loan,
+  type PaymentTransaction,
+  type UpcomingPayment,
+} from './schema';
+import {
+  allocatePayment,
+  calculateAccruedInterest,
+  getInterestRateOn,
+  wasAutoClosed,
+  type PaymentSplit,
+} from '../loan-calculations';
+import { addPaymentPeriods, daysBetween } from '../payment-schedule';
+import { recordBalanceEvent } from './balance-events';
+import { buildNextDueDateQueries } from './schedules';
+import { getRateChanges } from './rate-changes';
+import {
+  getPaymentTransactions,
+  recordPaymentTransaction,
+  summarizeTransactions,
+  type PaymentTransactionDetails,
+} from './payment-transactions';
+import type { BatchItem } from 'drizzle-orm/batch';
+import {
+  eq,
+  and,
+  ne,
+  gt,
+  lte,
+  asc,
+  desc,
+  inArray,
+  isNotNull,
+  or,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+
+/**
+ * Whether money paid on an installment has been posted to its loan.
+ * Part-paid installments keep their payments when they fall overdue or
+ * missed, which leaves their split recorded.
+ */
+export function hasPostedPayment(
+  installment: Pick<UpcomingPayment, 'status' | 'principalPaid'>
+): boolean {
+  return (
+    installment.status === 'paid' ||
+    installment.status === 'partial' ||
+    installment.principalPaid !== null
+  );
+}
+
+/**
+ * Work out where interest on a payment starts accruing: the last payment or
+ * prepayment made on the loan, or the start of the installment period if
+ * there is none
+ */
+async function getAccrualStartDate(
+  loan: Loan,
+  dueDate: string,
+  paidDate: string,
+  excludePaymentId?: number
+): Promise<string> {
+  const conditions = [
+    eq(upcomingPayments.loanId, loan.id),
+    or(
+      inArray(upcomingPayments.status, ['paid', 'partial']),
+      isNotNull(upcomingPayments.principalPaid)
+    ),
+    isNotNull(upcomingPayments.paidDate),
+    lte(upcomingPayments.paidDate, paidDate),
+  ];
+  if (excludePaymentId !== undefined) {
+    conditions.push(ne(upcomingPayments.id, excludePaymentId));
+  }
+
+  const lastPayment = await db
+    .select({ paidDate: upcomingPayments.paidDate })
+    .from(upcomingPayments)
+    .where(and(...conditions))
+    .orderBy(desc(upcomingPayments.paidDate))
+    .limit(1);
+
+  // Prepayments settle the interest accrued up to their date
+  const lastPrepayment = await db
+    .select({ eventDate: balanceEvents.eventDate })
+    .from(balanceEvents)
+    .where(
+      and(
+        eq(balanceEvents.loanId, loan.id),
+        eq(balanceEvents.eventType, 'prepayment'),
+        lte(balanceEvents.eventDate, paidDate)
+      )
+    )
+    .orderBy(desc(balanceEvents.eventDate))
+    .limit(1);
+
+  const lastPaidDates = [
+    lastPayment[0]?.paidDate,
+    lastPrepayment[0]?.eventDate,
+  ].filter((date): date is string => !!date);
+  if (lastPaidDates.length > 0) {
+    return lastPaidDates.sort()[lastPaidDates.length - 1];
+  }
+
+  const periodStart = addPaymentPeriods(dueDate, loan.paymentFrequency, -1);
+  return periodStart > loan.startDate ? periodStart : loan.startDate;
+}
+
+/**
+ * Split a payment into fees, accrued interest and principal for a loan.
+ * Interest accrues at the rate in effect when accrual started.
+ */
+export async function calculatePaymentSplit(
+  loan: Loan,
+  payment: Pick<UpcomingPayment, 'dueDate'> & { id?: number },
+  amount: number,
+  paidDate: string
+): Promise<PaymentSplit> {
+  const accrualStart = await getAccrualStartDate(
+    loan,
+    payment.dueDate,
+    paidDate,
+    payment.id
+  );
+  const outstandingCharges = Number(loan.outstandingCharges ?? 0);
+  const interestBearingBalance = Math.max(
+    0,
+    Number(loan.currentBalance) - outstandingCharges
+  );
+  const rateChanges = await getRateChanges([loan.id]);
+  const accruedInterest = calculateAccruedInterest(
+    interestBearingBalance,
+    { ...loan, interestRate: getInterestRateOn(loan, rateChanges, accrualStart) },
+    daysBetween(accrualStart, paidDate)
+  );
+
+  return allocatePayment(amount, outstandingCharges, accruedInterest);
+}
+
+/**
+ * Get how a paid payment was applied to its loan. Payments recorded before
+ * splits were stored took the whole amount off principal.
+ */
+export function getRecordedSplit(
+  payment: Pick<
+    UpcomingPayment,
+    'amountPaid' | 'feesPaid' | 'interestPaid' | 'principalPaid'
+  >
+): PaymentSplit {
+  if (payment.principalPaid === null) {
+    return {
+      feesPaid: 0,
+      interestPaid: 0,
+      principalPaid: Number(payment.amountPaid ?? 0),
+    };
+  }
+  return {
+    feesPaid: Number(payment.feesPaid ?? 0),
+    interestPaid: Number(payment.interestPaid ?? 0),
+    principalPaid: Number(payment.principalPaid),
+  };
+}
+
+/**
+ * Apply a payment split to a loan's balances in memory. Pass `-1` as the
+ * direction to undo a split that was previously applied. A loan paid down
+ * to zero closes; undoing a payment only reopens a loan that closed that way.
+ */
+export function applySplitToLoan(
+  loan: Loan,
+  split: PaymentSplit,
+  direction: 1 | -1 = 1
+): Loan {
+  const currentBalance = Math.max(
+    0,
+    Number(loan.currentBalance) -
+      direction * (split.feesPaid + split.principalPaid)
+  );
+  const outstandingCharges = Math.max(
+    0,
+    Number(loan.outstandingCharges ?? 0) - direction * split.feesPaid
+  );
+
+  let isActive = loan.isActive;
+  if (currentBalance <= 0.01) {
+    isActive = false;
+  } else if (wasAutoClosed(loan)) {
+    isActive = true;
+  }
+
+  return {
+    ...loan,
+    currentBalance,
+    outstandingCharges,
+    isActive,
+  };
+}
+
+/**
+ * Build the update that moves a loan's balances from `loan` to `updated`.
+ * The difference is written as a delta, like charges and penalties are, so
+ * anything posted to the loan since it was read is kept. The loan closes
+ * when its balance reaches zero and reopens only if it closed that way.
+ */
+export function updateLoanBalance(loan: Loan, updated: Loan) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const balanceDelta = round(
+    Number(updated.currentBalance) - Number(loan.currentBalance)
+  );
+  const chargesDelta = round(
+    Number(updated.outstandingCharges ?? 0) - Number(loan.outstandingCharges ?? 0)
+  );
+
+  return db
+    .update(loans)
+    .set({
+      currentBalance: sql`greatest(0, ${loans.currentBalance} + ${balanceDelta})`,
+      outstandingCharges: sql`greatest(0, ${loans.outstandingCharges} + ${chargesDelta})`,
+      isActive: sql`case
+        when ${loans.currentBalance} + ${balanceDelta} <= 0.01 then false
+        when not ${loans.isActive}
+          and ${loans.consolidatedIntoLoanId} is null
+          and ${loans.currentBalance} <= 0.01 then true
+        else ${loans.isActive}
+      end`,
+      updatedAt: new Date(),
+    })
+    .where(eq(loans.id, loan.id));
+}
+
+/**
+ * Build the loan update that posts a payment split: fees come off the
+ * outstanding charges, and fees plus principal come off the balance.
+ * A loan whose balance reaches zero is marked inactive.
+ */
+export function postPaymentToLoan(loan: Loan, split: PaymentSplit) {
+  return updateLoanBalance(loan, applySplitToLoan(loan, split));
+}
+
+/**
+ * Build the loan update that undoes a paid payment
+ */
+export function reversePaymentOnLoan(loan: Loan, payment: UpcomingPayment) {
+  return updateLoanBalance(
+    loan,
+    applySplitToLoan(loan, getRecordedSplit(payment), -1)
+  );
+}
+
+/**
+ * Build the ledger events for posting a payment split to a loan: the
+ * interest charged since the last payment, then the payment itself
+ */
+export function recordPaymentEvents(
+  loan: Loan,
+  split: PaymentSplit,
+  amount: number,
+  paymentId: number | SQL,
+  eventDate: string
+) {
+  const balanceBefore = Number(loan.currentBalance);
+  const interestCharged = amount - split.feesPaid - split.principalPaid;
+  const events = [];
+
+  if (interestCharged > 0.005) {
+    events.push(
+      recordBalanceEvent({
+        loanId: loan.id,
+        eventType: 'interest_accrual',
+        amount: interestCharged,
+        balanceAfter: balanceBefore + interestCharged,
+        eventDate,
+        paymentId,
+      })
+    );
+  }
+
+  events.push(
+    recordBalanceEvent({
+      loanId: loan.id,
+      eventType: 'payment',
+      amount: -amount,
+      balanceAfter: Number(applySplitToLoan(loan, split).currentBalance),
+      eventDate,
+      paymentId,
+    })
+  );
+
+  return events;
+}
+
+/**
+ * Build the ledger event for undoing a paid payment
+ */
+export function recordPaymentReversalEvent(
+  loan: Loan,
+  payment: UpcomingPayment,
+  paymentId: number | null,
+  description?: string
+) {
+  const split = getRecordedSplit(payment);
+
+  return recordBalanceEvent({
+    loanId: loan.id,
+    eventType: 'payment_reversal',
+    amount: split.feesPaid + split.principalPaid,
+    balanceAfter: Number(applySplitToLoan(loan, split, -1).currentBalance),
+    paymentId,
+    description,
+  });
+}
+
+/**
+ * Add a split onto the split already recorded on an installment
+ */
+function addSplits(payment: UpcomingPayment, split: PaymentSplit): PaymentSplit {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const recorded =
+    Number(payment.amountPaid ?? 0) > 0
+      ? getRecordedSplit(payment)
+      : { feesPaid: 0, interestPaid: 0, principalPaid: 0 };
+
+  return {
+    feesPaid: round(recorded.feesPaid + split.feesPaid),
+    interestPaid: round(recorded.interestPaid + split.interestPaid),
+    principalPaid: round(recorded.principalPaid + split.principalPaid),
+  };
+}
+
+export interface InstallmentPaymentInput extends PaymentTransactionDetails {
+  amount: number;
+  paidDate: string;
+  overpayment: 'principal' | 'advance';
+  carryOver: boolean;
+}
+
+/**
+ * Build the queries that record money paid against one installment. The
+ * installment becomes partial until its amount due is covered. Money beyond
+ * the amount due either prepays principal (kept on this installment) or pays
+ * later installments in advance. A short installment can be closed with the
+ * remainder carried over to the next one. Each installment touched gets a
+ * transaction for its share of the money.
+ */
+export async function buildInstallmentPaymentQueries(
+  loan: Loan,
+  installment: UpcomingPayment,
+  input: InstallmentPaymentInput
+) {
+  const amountDue = Number(installment.amountDue);
+  const alreadyPaid = Number(installment.amountPaid ?? 0);
+  const remainingDue = Math.max(0, amountDue - alreadyPaid);
+
+  const split = await calculatePaymentSplit(
+    loan,
+    installment,
+    input.amount,
+    input.paidDate
+  );
+  const workingLoan = applySplitToLoan(loan, split);
+  const queries: BatchItem<'pg'>[] = [
+    updateLoanBalance(loan, workingLoan),
+    ...recordPaymentEvents(loan, split, input.amount, installment.id, input.paidDate),
+  ];
+
+  const laterInstallments = await db
+    .select()
+    .from(upcomingPayments)
+    .where(
+      and(
+        eq(upcomingPayments.loanId, loan.id),
+        inArray(upcomingPayments.status, ['pending', 'overdue', 'partial']),
+        gt(upcomingPayments.dueDate, installment.dueDate)
+      )
+    )
+    .orderBy(asc(upcomingPayments.dueDate));
+
+  // Spread an advance payment over later installments as pure principal
+  let excess =
+    input.overpayment === 'advance' ? Math.max(0, input.amount - remainingDue) : 0;
+  const advancedPaymentIds: number[] = [];
+  const transactionDetails = {
+    method: input.method,
+    referenceNumber: input.referenceNumber,
+  };
+  let lastAdvancedDueDate = installment.dueDate;
+  for (const later of laterInstallments) {
+    if (excess <= 0.005) break;
+    const laterPaid = Number(later.amountPaid ?? 0);
+    const portion = Math.min(excess, Number(later.amountDue) - laterPaid);
+    if (portion <= 0.005) continue;
+
+    const laterSplit = addSplits(later, {
+      feesPaid: 0,
+      interestPaid: 0,
+      principalPaid: portion,
+    });
+    const fullyPaid = laterPaid + portion >= Number(later.amountDue) - 0.005;
+    queries.push(
+      db
+        .update(upcomingPayments)
+        .set({
+          ...laterSplit,
+          amountPaid: Math.round((laterPaid + portion) * 100) / 100,
+          status: fullyPaid ? 'paid' : 'partial',
+          paidDate: input.paidDate,
+          updatedAt: new Date(),
+        })
+        .where(eq(upcomingPayments.id, later.id)),
+      recordPaymentTransaction({
+        ...transactionDetails,
+        paymentId: later.id,
+        amount: portion,
+        transactionDate: input.paidDate,
+        note: `Advance from installment due ${installment.dueDate}`,
+        split: { feesPaid: 0, interestPaid: 0, principalPaid: portion },
+      })
+    );
+    if (fullyPaid) {
+      advancedPaymentIds.push(later.id);
+      lastAdvancedDueDate = later.dueDate;
+    }
+    excess -= portion;
+  }
+
+  // Whatever was passed on to later installments is not part of this one
+  const advanced =
+    input.overpayment === 'advance'
+      ? Math.max(0, input.amount - remainingDue) - excess
+      : 0;
+  const appliedHere = input.amount - advanced;
+  const appliedSplit = {
+    ...split,
+    principalPaid: split.principalPaid - advanced,
+  };
+  const ownSplit = addSplits(installment, appliedSplit);
+  const totalPaid = Math.round((alreadyPaid + appliedHere) * 100) / 100;
+  const shortfall = Math.round((amountDue - totalPaid) * 100) / 100;
+  const carriedOver = input.carryOver && shortfall > 0 ? shortfall : 0;
+  const closed = shortfall <= 0 || carriedOver > 0;
+
+  queries.push(
+    db
+      .update(upcomingPayments)
+      .set({
+        ...ownSplit,
+        amountPaid: totalPaid,
+        status: closed ? 'paid' : 'partial',
+        paidDate: input.paidDate,
+        carriedOverAmount: carriedOver,
+        updatedAt: new Date(),
+      })
+      .where(eq(upcomingPayments.id, installment.id)),
+    recordPaymentTransaction({
+      ...transactionDetails,
+      paymentId: installment.id,
+      amount: appliedHere,
+      transactionDate: input.paidDate,
+      note: input.note,
+      split: appliedSplit,
+    })
+  );
+
+  // Carry the remainder onto the next open installment, or onto the one
+  // created for the next period when there is none
+  const nextInstallment = laterInstallments.find(
+    (later) => !advancedPaymentIds.includes(later.id)
+  );
+  if (carriedOver > 0 && nextInstallment) {
+    queries.push(
+      db
+        .update(upcomingPayments)
+        .set({
+          amountDue: Number(nextInstallment.amountDue) + carriedOver,
+          updatedAt: new Date(),
+        })
+        .where(eq(upcomingPayments.id, nextInstallment.id))
+    );
+  }
+
+  if (closed) {
+    queries.push(
+      ...(await buildNextDueDateQueries(workingLoan, {
+        paymentIds: [installment.id, ...advancedPaymentIds],
+        dueDate: lastAdvancedDueDate,
+        paid: true,
+        carriedOver: nextInstallment ? 0 : carriedOver,
+      }))
+    );
+  }
+
+  return {
+    queries,
+    status: closed ? ('paid' as const) : ('partial' as const),
+    split: ownSplit,
+    amountPaid: totalPaid,
+    advanced: Math.round(advanced * 100) / 100,
+    carriedOver,
+  };
+}
+
+/**
+ * Build the queries that take a carried-over remainder back off the next
+ * open installment when the installment it came from is reopened
+ */
+export async function buildCarryOverReversalQueries(installment: UpcomingPayment) {
+  const carriedOver = Number(installment.carriedOverAmount ?? 0);
+  if (carriedOver <= 0) {
+    return [];
+  }
+
+  const nextInstallment = await db
+    .select()
+    .from(upcomingPayments)
+    .where(
+      and(
+        eq(upcomingPayments.loanId, installment.loanId),
+        inArray(upcomingPayments.status, ['pending', 'overdue', 'partial']),
+        gt(upcomingPayments.dueDate, installment.dueDate)
+      )
+    )
+    .orderBy(asc(upcomingPayments.dueDate))
+    .limit(1);
+
+  if (nextInstallment.length === 0) {
+    return [];
+  }
+
+  return [
+    db
+      .update(upcomingPayments)
+      .set({
+        amountDue: Math.max(0, Number(nextInstallment[0].amountDue) - carriedOver),
+        updatedAt: new Date(),
+      })
+      .where(eq(upcomingPayments.id, nextInstallment[0].id)),
+  ];
+}
+
+/**
+ * Build the queries that remove one transaction from an installment: its
+ * split comes back off the loan, and the installment's amount paid, split
+ * and status are recomputed from the transactions that remain
+ */
+export async function buildTransactionReversalQueries(
+  loan: Loan,
+  installment: UpcomingPayment,
+  transaction: PaymentTransaction
+) {
+  const split: PaymentSplit = {
+    feesPaid: Number(transaction.feesPaid),
+    interestPaid: Number(transaction.interestPaid),
+    principalPaid: Number(transaction.principalPaid),
+  };
+  const workingLoan = applySplitToLoan(loan, split, -1);
+  const remaining = (await getPaymentTransactions(installment.id)).filter(
+    (other) => other.id !== transaction.id
+  );
+  const totals = summarizeTransactions(remaining);
+
+  let status = installment.status;
+  if (totals.amountPaid <= 0) {
+    status = 'pending';
+  } else if (
+    status === 'paid' &&
+    totals.amountPaid < Number(installment.amountDue) - 0.005
+  ) {
+    status = 'partial';
+  }
+  const reopened = installment.status === 'paid' && status !== 'paid';
+
+  const queries: BatchItem<'pg'>[] = [
+    recordBalanceEvent({
+      loanId: loan.id,
+      eventType: 'payment_reversal',
+      amount: split.feesPaid + split.principalPaid,
+      balanceAfter: Number(workingLoan.currentBalance),
+      paymentId: installment.id,
+      description: `Transaction of ${Number(transaction.amount).toFixed(2)} on ${transaction.transactionDate} removed`,
+    }),
+    db
+      .delete(paymentTransactions)
+      .where(eq(paymentTransactions.id, transaction.id)),
+    db
+      .update(upcomingPayments)
+      .set({
+        amountPaid: totals.amountPaid > 0 ? totals.amountPaid : null,
+        feesPaid: totals.amountPaid > 0 ? totals.feesPaid : null,
+        interestPaid: totals.amountPaid > 0 ? totals.interestPaid : null,
+        principalPaid: totals.amountPaid > 0 ? totals.principalPaid : null,
+        paidDate: totals.paidDate,
+        status,
+        carriedOverAmount: reopened ? 0 : installment.carriedOverAmount,
+        updatedAt: new Date(),
+      })
+      .where(eq(upcomingPayments.id, installment.id)),
+    updateLoanBalance(loan, workingLoan),
+  ];
+
+  // A closed installment that is open again takes back any remainder it
+  // carried over and becomes the loan's next due date again
+  if (reopened) {
+    queries.push(
+      ...(await buildCarryOverReversalQueries(installment)),
+      ...(await buildNextDueDateQueries(workingLoan, {
+        paymentIds: [installment.id],
+        dueDate: installment.dueDate,
+        paid: false,
+      }))
+    );
+  }
+
+  return queries;
+}
@@ -0,0 +1,76 @@
+import { db } from './index';
+import { loans, type Loan } from './schema';
+import {
+  calculatePrepaymentTerms,
+  type PaymentSplit,
+} from '../loan-calculations';
+import { recordBalanceEvent } from './balance-events';
+import { buildLoanScheduleQueries } from './schedules';
+import { updateLoanBalance } from './payments';
+import type { PrepaymentInput } from '../validations/prepayment-schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Build the queries that post a lump-sum prepayment split into fees,
+ * accrued interest and principal: the loan's new balance and terms, the
+ * interest and prepayment events in its ledger, and the unpaid
+ * installments re-amortized on the new terms
+ */
+export async function buildPrepaymentQueries(
+  loan: Loan,
+  split: PaymentSplit,
+  input: Required<Omit<PrepaymentInput, 'note'>> & Pick<PrepaymentInput, 'note'>
+) {
+  const terms = calculatePrepaymentTerms(
+    loan,
+    split.feesPaid + split.principalPaid,
+    input.mode
+  );
+  const updatedLoan: Loan = {
+    ...loan,
+    ...terms,
+    outstandingCharges: Math.max(
+      0,
+      Number(loan.outstandingCharges ?? 0) - split.feesPaid
+    ),
+    isActive: terms.currentBalance > 0.01,
+  };
+  const modeLabel = input.mode === 'recast' ? 'payment recast' : 'term shortened';
+  const interestCharged = input.amount - split.feesPaid - split.principalPaid;
+
+  // The balance moves by a delta, so charges and payments posted since the
+  // loan was read are kept; the update returns the loan as it ends up
+  return [
+    db
+      .update(loans)
+      .set({
+        minimumPayment: terms.minimumPayment,
+        loanTermMonths: terms.loanTermMonths,
+        updatedAt: new Date(),
+      })
+      .where(eq(loans.id, loan.id)),
+    updateLoanBalance(loan, updatedLoan).returning(),
+    ...(interestCharged > 0.005
+      ? [
+        recordBalanceEvent({
+          loanId: loan.id,
+          eventType: 'interest_accrual',
+          amount: interestCharged,
+          balanceAfter: Number(loan.currentBalance) + interestCharged,
+          eventDate: input.prepaymentDate,
+        }),
+      ]
+      : []),
+    recordBalanceEvent({
+      loanId: loan.id,
+      eventType: 'prepayment',
+      amount: -input.amount,
+      balanceAfter: terms.currentBalance,
+      eventDate: input.prepaymentDate,
+      description: input.note
+        ? `Prepayment (${modeLabel}): ${input.note}`
+        : `Prepayment (${modeLabel})`,
+    }),
+    ...(await buildLoanScheduleQueries(updatedLoan)),
+  ] as const;
+}
@@ -0,0 +1,47 @@
+import { db } from './index';
+import { loanRateChanges, type LoanRateChange } from './schema';
+import type { RateChangeInput } from '../validations/loan-schema';
+import { asc, eq, inArray, type SQL } from 'drizzle-orm';
+
+/**
+ * Get the rate changes scheduled for the given loans, earliest first
+ */
+export async function getRateChanges(loanIds: number[]): Promise<LoanRateChange[]> {
+  if (loanIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(loanRateChanges)
+    .where(inArray(loanRateChanges.loanId, loanIds))
+    .orderBy(asc(loanRateChanges.effectiveDate));
+}
+
+/**
+ * Build the queries that replace a loan's rate schedule with the given
+ * changes. Pass `lastInsertedId('loans')` for a loan created in the same batch.
+ */
+export function buildRateScheduleQueries(
+  loanId: number | SQL,
+  changes: RateChangeInput[]
+) {
+  const queries = [];
+
+  if (typeof loanId === 'number') {
+    queries.push(db.delete(loanRateChanges).where(eq(loanRateChanges.loanId, loanId)));
+  }
+  if (changes.length > 0) {
+    queries.push(
+      db.insert(loanRateChanges).values(
+        changes.map((change) => ({
+          loanId,
+          effectiveDate: change.effectiveDate,
+          interestRate: change.interestRate,
+        }))
+      )
+    );
+  }
+
+  return queries;
+}
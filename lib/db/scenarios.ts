@@ -0,0 +1,188 @@
+import { db } from './index';
+import {
+  loans,
+  scenarios,
+  scenarioLoans,
+  scenarioLoanRateChanges,
+  type Loan,
+  type Scenario,
+  type ScenarioLoan,
+} from './schema';
+import { getActiveBudget } from './budgets';
+import { lastInsertedId } from './balance-events';
+import { getRateChanges } from './rate-changes';
+import {
+  calculateStrategyProjections,
+  type ProjectionOptions,
+  type RateChange,
+  type StrategyProjection,
+} from '../loan-calculations';
+import type { CreateScenarioInput } from '../validations/scenario-schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+/**
+ * Create a scenario from the live plan: every active debt is copied with its
+ * rate schedule, and the budget and strategy default to the live ones
+ * unless given
+ */
+export async function createScenario(input: CreateScenarioInput): Promise<Scenario> {
+  const activeLoans = await db
+    .select()
+    .from(loans)
+    .where(and(eq(loans.isActive, true), eq(loans.direction, 'borrowed')));
+  const budget = await getActiveBudget();
+  const rateChanges = await getRateChanges(activeLoans.map((loan) => loan.id));
+
+  const [[scenario]] = await db.batch([
+    db
+      .insert(scenarios)
+      .values({
+        name: input.name,
+        description: input.description ?? null,
+        strategyType:
+          input.strategyType !== undefined
+            ? input.strategyType
+            : (activeLoans[0]?.strategyType ?? null),
+        monthlyAllocation:
+          input.monthlyAllocation !== undefined
+            ? input.monthlyAllocation
+            : (budget?.monthlyAllocation ?? null),
+      })
+      .returning(),
+    ...activeLoans.flatMap((loan) => [
+      db.insert(scenarioLoans).values({
+        scenarioId: lastInsertedId('scenarios'),
+        sourceLoanId: loan.id,
+        lenderName: loan.lenderName,
+        sourceType: loan.sourceType,
+        accountType: loan.accountType,
+        principalAmount: loan.principalAmount,
+        currentBalance: loan.currentBalance,
+        outstandingCharges: loan.outstandingCharges,
+        interestRate: loan.interestRate,
+        interestMethod: loan.interestMethod,
+        loanTermMonths: loan.loanTermMonths,
+        startDate: loan.startDate,
+        paymentFrequency: loan.paymentFrequency,
+        minimumPayment: loan.minimumPayment,
+        minimumPaymentRule: loan.minimumPaymentRule,
+        minimumPaymentPercent: loan.minimumPaymentPercent,
+        minimumPaymentFloor: loan.minimumPaymentFloor,
+        priorityOrder: loan.priorityOrder,
+      }),
+      ...rateChanges
+        .filter((change) => change.loanId === loan.id)
+        .map((change) =>
+          db.insert(scenarioLoanRateChanges).values({
+            scenarioLoanId: lastInsertedId('scenario_loans'),
+            effectiveDate: change.effectiveDate,
+            interestRate: change.interestRate,
+          })
+        ),
+    ]),
+  ]);
+
+  return scenario;
+}
+
+/**
+ * Get a scenario's loan copies in the order they were added
+ */
+export async function getScenarioLoans(scenarioId: number): Promise<ScenarioLoan[]> {
+  return db
+    .select()
+    .from(scenarioLoans)
+    .where(eq(scenarioLoans.scenarioId, scenarioId))
+    .orderBy(asc(scenarioLoans.id));
+}
+
+/**
+ * Shape a scenario's loan copies as loans the projection engine can run.
+ * Ids are the copies' own, so they never collide with live loans.
+ */
+export function toSimulationLoans(
+  scenario: Scenario,
+  copies: ScenarioLoan[]
+): Loan[] {
+  return copies.map((copy) => ({
+    id: copy.id,
+    sourceType: copy.sourceType,
+    accountType: copy.accountType,
+    direction: 'borrowed',
+    lenderName: copy.lenderName,
+    accountNumber: null,
+    principalAmount: copy.principalAmount,
+    currentBalance: copy.currentBalance,
+    outstandingCharges: copy.outstandingCharges,
+    interestRate: copy.interestRate,
+    interestMethod: copy.interestMethod,
+    loanTermMonths: copy.loanTermMonths,
+    startDate: copy.startDate,
+    paymentFrequency: copy.paymentFrequency,
+    minimumPayment: copy.minimumPayment,
+    nextPaymentDueDate: copy.startDate,
+    paymentDueDay: null,
+    creditLimit: null,
+    statementDay: null,
+    minimumPaymentRule: copy.minimumPaymentRule,
+    minimumPaymentPercent: copy.minimumPaymentPercent,
+    minimumPaymentFloor: copy.minimumPaymentFloor,
+    paymentStatus: 'current',
+    strategyType: scenario.strategyType,
+    priorityOrder: copy.priorityOrder,
+    penaltyRuleType: null,
+    penaltyRate: null,
+    isActive: Number(copy.currentBalance) > 0.01,
+    consolidatedIntoLoanId: null,
+    createdAt: copy.createdAt,
+    updatedAt: copy.updatedAt,
+  }));
+}
+
+/**
+ * Get the rate schedules copied into a scenario, keyed to the copies' ids
+ * so the projection applies them to the copies
+ */
+export async function getScenarioRateChanges(
+  copies: ScenarioLoan[]
+): Promise<RateChange[]> {
+  if (copies.length === 0) {
+    return [];
+  }
+
+  const rateChanges = await db
+    .select()
+    .from(scenarioLoanRateChanges)
+    .where(
+      inArray(
+        scenarioLoanRateChanges.scenarioLoanId,
+        copies.map((copy) => copy.id)
+      )
+    )
+    .orderBy(asc(scenarioLoanRateChanges.effectiveDate));
+
+  return rateChanges.map((change) => ({
+    loanId: change.scenarioLoanId,
+    effectiveDate: change.effectiveDate,
+    interestRate: change.interestRate,
+  }));
+}
+
+/**
+ * Project a scenario with the same engine as the live plan. Pass the
+ * copies' rate schedules from getScenarioRateChanges in `options`.
+ */
+export function projectScenario(
+  scenario: Scenario,
+  copies: ScenarioLoan[],
+  options: ProjectionOptions = {}
+): StrategyProjection {
+  return calculateStrategyProjections(
+    toSimulationLoans(scenario, copies),
+    scenario.monthlyAllocation !== null
+      ? { monthlyAllocation: scenario.monthlyAllocation }
+      : null,
+    scenario.strategyType,
+    options
+  );
+}
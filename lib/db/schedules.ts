@@ -0,0 +1,195 @@
+import { db, runInBatch } from './index';
+import { loans, upcomingPayments, type Loan } from './schema';
+import { getRateChanges } from './rate-changes';
+import { getPurchasesSince } from './charges';
+import {
+  calculateMinimumPaymentDue,
+  calculatePeriodInterest,
+  generatePaymentSchedule,
+} from '../loan-calculations';
+import {
+  addPaymentPeriods,
+  getPaymentDueDay,
+  getStatementDate,
+} from '../payment-schedule';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { eq, and, inArray } from 'drizzle-orm';
+
+/**
+ * Build the queries that regenerate the unpaid tail of a loan's payment
+ * schedule at its scheduled rates. Pending installments are replaced; paid,
+ * overdue and missed rows are never touched, and no new installment is
+ * created on a date they occupy.
+ */
+export async function buildLoanScheduleQueries(
+  loan: Loan
+): Promise<BatchItem<'pg'>[]> {
+  const existingPayments = await db
+    .select()
+    .from(upcomingPayments)
+    .where(eq(upcomingPayments.loanId, loan.id));
+
+  const lockedDueDates = new Set(
+    existingPayments
+      .filter((payment) => payment.status !== 'pending')
+      .map((payment) => payment.dueDate)
+  );
+
+  const rateChanges = await getRateChanges([loan.id]);
+
+  // A revolving account bills the balance its statement closed with;
+  // purchases made after the closing date wait for the next statement
+  let billedLoan = loan;
+  if (loan.accountType === 'revolving' && loan.statementDay !== null) {
+    const unbilledPurchases = await getPurchasesSince(
+      loan.id,
+      getStatementDate(loan.nextPaymentDueDate, loan.statementDay)
+    );
+    const statementBalance = Number(loan.currentBalance) - unbilledPurchases;
+    billedLoan =
+      statementBalance > 0.01
+        ? { ...loan, currentBalance: statementBalance }
+        : {
+          ...loan,
+          nextPaymentDueDate: addPaymentPeriods(
+            loan.nextPaymentDueDate,
+            loan.paymentFrequency,
+            1,
+            getPaymentDueDay(loan)
+          ),
+        };
+  }
+
+  const installments = loan.isActive
+    ? generatePaymentSchedule(billedLoan, rateChanges).filter(
+      (installment) => !lockedDueDates.has(installment.dueDate)
+    )
+    : [];
+
+  // Nothing was billed on this statement, so the next one is due first
+  const nextDueDateQueries =
+    installments.length > 0 &&
+    billedLoan.nextPaymentDueDate !== loan.nextPaymentDueDate
+      ? [
+        db
+          .update(loans)
+          .set({
+            nextPaymentDueDate: billedLoan.nextPaymentDueDate,
+            updatedAt: new Date(),
+          })
+          .where(eq(loans.id, loan.id)),
+      ]
+      : [];
+
+  const deletePending = db
+    .delete(upcomingPayments)
+    .where(
+      and(
+        eq(upcomingPayments.loanId, loan.id),
+        eq(upcomingPayments.status, 'pending')
+      )
+    );
+
+  if (installments.length === 0) {
+    return [deletePending];
+  }
+
+  return [
+    deletePending,
+    ...nextDueDateQueries,
+    db.insert(upcomingPayments).values(
+      installments.map((installment) => ({
+        loanId: loan.id,
+        dueDate: installment.dueDate,
+        amountDue: installment.amountDue,
+        status: 'pending' as const,
+      }))
+    ),
+  ];
+}
+
+/**
+ * Regenerate the unpaid tail of a loan's payment schedule
+ */
+export async function syncLoanSchedule(loan: Loan) {
+  // Delete and re-insert in one batch so the schedule is never half-written
+  await runInBatch(await buildLoanScheduleQueries(loan));
+}
+
+/**
+ * Build the queries that move a loan's next due date after installments
+ * are paid or un-paid. The next due date is the earliest open installment;
+ * paying the last one creates the installment for the following period,
+ * including any remainder carried over from the one just closed.
+ */
+export async function buildNextDueDateQueries(
+  loan: Loan,
+  change: {
+    paymentIds?: number[];
+    dueDate: string;
+    paid: boolean;
+    carriedOver?: number;
+  }
+) {
+  const openPayments = await db
+    .select({ id: upcomingPayments.id, dueDate: upcomingPayments.dueDate })
+    .from(upcomingPayments)
+    .where(
+      and(
+        eq(upcomingPayments.loanId, loan.id),
+        inArray(upcomingPayments.status, ['pending', 'overdue', 'partial'])
+      )
+    );
+
+  const openDueDates = openPayments
+    .filter((payment) => !change.paymentIds?.includes(payment.id))
+    .map((payment) => payment.dueDate);
+  if (!change.paid) {
+    openDueDates.push(change.dueDate);
+  }
+
+  const queries = [];
+  const hasLaterInstallment = openDueDates.some(
+    (dueDate) => dueDate > change.dueDate
+  );
+
+  if (change.paid && loan.isActive && !hasLaterInstallment) {
+    const nextDueDate = addPaymentPeriods(
+      change.dueDate,
+      loan.paymentFrequency,
+      1,
+      getPaymentDueDay(loan)
+    );
+    const balance = Number(loan.currentBalance);
+    const interest = calculatePeriodInterest(balance, loan);
+    queries.push(
+      db.insert(upcomingPayments).values({
+        loanId: loan.id,
+        dueDate: nextDueDate,
+        amountDue:
+          Math.min(
+            calculateMinimumPaymentDue(loan, balance + interest, interest),
+            balance
+          ) + (change.carriedOver ?? 0),
+        status: 'pending',
+      })
+    );
+    openDueDates.push(nextDueDate);
+  }
+
+  if (openDueDates.length === 0) {
+    return queries;
+  }
+
+  const nextPaymentDueDate = openDueDates.sort()[0];
+  if (nextPaymentDueDate !== loan.nextPaymentDueDate) {
+    queries.push(
+      db
+        .update(loans)
+        .set({ nextPaymentDueDate, updatedAt: new Date() })
+        .where(eq(loans.id, loan.id))
+    );
+  }
+
+  return queries;
+}
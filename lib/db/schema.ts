@@ -9,6 +9,7 @@ import {
   date,
   boolean,
   integer,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
@@ -31,10 +32,21 @@ export const paymentStatusEnum = pgEnum('payment_status', [
   'overdue',
 ]);
 
+export const interestMethodEnum = pgEnum('interest_method', [
+  'diminishing',
+  'add_on',
+  'zero_interest',
+  'simple',
+]);
+
 export const strategyTypeEnum = pgEnum('strategy_type', [
   'snowball',
   'avalanche',
   'custom',
+  'interest_cost',
+  'cash_flow_index',
+  'snowflake',
+  'lender_type',
 ]);
 
 export const paymentRecordStatusEnum = pgEnum('payment_record_status', [
@@ -42,12 +54,69 @@ export const paymentRecordStatusEnum = pgEnum('payment_record_status', [
   'paid',
   'overdue',
   'missed',
+  'partial',
+]);
+
+export const chargeTypeEnum = pgEnum('charge_type', [
+  'late_fee',
+  'processing_fee',
+  'insurance',
+  'penalty_interest',
+  'other',
+  'purchase',
+]);
+
+export const accountTypeEnum = pgEnum('account_type', [
+  'installment',
+  'revolving',
+]);
+
+export const loanDirectionEnum = pgEnum('loan_direction', [
+  'borrowed',
+  'lent',
+]);
+
+export const minimumPaymentRuleEnum = pgEnum('minimum_payment_rule', [
+  'fixed',
+  'percent_of_balance',
+  'interest_plus_percent',
+]);
+
+export const penaltyRuleTypeEnum = pgEnum('penalty_rule_type', [
+  'fixed',
+  'percent_per_day',
+]);
+
+export const paymentMethodEnum = pgEnum('payment_method', [
+  'bank_transfer',
+  'gcash',
+  'maya',
+  'cash',
+  'other',
+]);
+
+export const balanceEventTypeEnum = pgEnum('balance_event_type', [
+  'opening_balance',
+  'payment',
+  'payment_reversal',
+  'charge',
+  'charge_reversal',
+  'manual_adjustment',
+  'interest_accrual',
+  'refinance',
+  'prepayment',
 ]);
 
 // Loans table
 export const loans = pgTable('loans', {
   id: serial('id').primaryKey(),
   sourceType: sourceTypeEnum('source_type').notNull(),
+  // Installment loans pay a fixed amount over a term; revolving accounts
+  // (credit cards, credit lines) bill a minimum worked out from the balance
+  accountType: accountTypeEnum('account_type').notNull().default('installment'),
+  // Money we borrowed, or a receivable we lent out. For receivables
+  // lenderName holds the borrower's name.
+  direction: loanDirectionEnum('direction').notNull().default('borrowed'),
   lenderName: varchar('lender_name', { length: 255 }).notNull(),
   accountNumber: varchar('account_number', { length: 100 }),
   principalAmount: decimal('principal_amount', { precision: 12, scale: 2 })
@@ -56,9 +125,18 @@ export const loans = pgTable('loans', {
   currentBalance: decimal('current_balance', { precision: 12, scale: 2 })
     .notNull()
     .$type<number>(),
+  // Portion of currentBalance that is unpaid fees and penalties
+  outstandingCharges: decimal('outstanding_charges', { precision: 12, scale: 2 })
+    .notNull()
+    .default('0')
+    .$type<number>(),
   interestRate: decimal('interest_rate', { precision: 5, scale: 2 })
     .notNull()
     .$type<number>(),
+  interestMethod: interestMethodEnum('interest_method')
+    .notNull()
+    .default('diminishing'),
+  // Unused for revolving accounts, which have no fixed term
   loanTermMonths: integer('loan_term_months').notNull(),
   startDate: date('start_date').notNull(),
   paymentFrequency: paymentFrequencyEnum('payment_frequency').notNull(),
@@ -66,10 +144,36 @@ export const loans = pgTable('loans', {
     .notNull()
     .$type<number>(),
   nextPaymentDueDate: date('next_payment_due_date').notNull(),
+  // Day of the month monthly installments are due (1-31, clamped in short months)
+  paymentDueDay: integer('payment_due_day'),
+  // Revolving accounts: the credit limit and the day statements are cut
+  creditLimit: decimal('credit_limit', { precision: 12, scale: 2 })
+    .$type<number>(),
+  statementDay: integer('statement_day'),
+  // How the minimum due is worked out: the fixed minimumPayment, the larger
+  // of the floor and a percentage of the balance, or the period's interest
+  // plus a percentage of principal (also held to the floor)
+  minimumPaymentRule: minimumPaymentRuleEnum('minimum_payment_rule')
+    .notNull()
+    .default('fixed'),
+  minimumPaymentPercent: decimal('minimum_payment_percent', { precision: 5, scale: 2 })
+    .$type<number>(),
+  minimumPaymentFloor: decimal('minimum_payment_floor', { precision: 12, scale: 2 })
+    .$type<number>(),
   paymentStatus: paymentStatusEnum('payment_status').notNull(),
   strategyType: strategyTypeEnum('strategy_type'),
   priorityOrder: integer('priority_order'),
+  // Penalty accrued on overdue installments: a fixed amount per installment
+  // or a percentage of the amount due per day overdue
+  penaltyRuleType: penaltyRuleTypeEnum('penalty_rule_type'),
+  penaltyRate: decimal('penalty_rate', { precision: 12, scale: 4 })
+    .$type<number>(),
   isActive: boolean('is_active').notNull().default(true),
+  // Set on loans closed by a consolidation, pointing at the loan that paid them off
+  consolidatedIntoLoanId: integer('consolidated_into_loan_id').references(
+    (): AnyPgColumn => loans.id,
+    { onDelete: 'set null' }
+  ),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -86,12 +190,114 @@ export const upcomingPayments = pgTable('upcoming_payments', {
     .$type<number>(),
   amountPaid: decimal('amount_paid', { precision: 12, scale: 2 })
     .$type<number>(),
+  // How the amount paid was applied (fees, then interest, then principal).
+  // Principal is negative when the payment didn't cover accrued interest.
+  feesPaid: decimal('fees_paid', { precision: 12, scale: 2 })
+    .$type<number>(),
+  interestPaid: decimal('interest_paid', { precision: 12, scale: 2 })
+    .$type<number>(),
+  principalPaid: decimal('principal_paid', { precision: 12, scale: 2 })
+    .$type<number>(),
+  // Unpaid remainder moved onto the next installment when this one was closed
+  carriedOverAmount: decimal('carried_over_amount', { precision: 12, scale: 2 })
+    .notNull()
+    .default('0')
+    .$type<number>(),
   status: paymentRecordStatusEnum('status').notNull().default('pending'),
   paidDate: date('paid_date'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Payment transactions table (individual transfers made against an installment)
+export const paymentTransactions = pgTable('payment_transactions', {
+  id: serial('id').primaryKey(),
+  paymentId: integer('payment_id')
+    .notNull()
+    .references(() => upcomingPayments.id, { onDelete: 'cascade' }),
+  amount: decimal('amount', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  transactionDate: date('transaction_date').notNull(),
+  method: paymentMethodEnum('method').notNull().default('other'),
+  referenceNumber: varchar('reference_number', { length: 100 }),
+  note: text('note'),
+  // How this transaction was applied (see upcomingPayments for the totals)
+  feesPaid: decimal('fees_paid', { precision: 12, scale: 2 })
+    .notNull()
+    .default('0')
+    .$type<number>(),
+  interestPaid: decimal('interest_paid', { precision: 12, scale: 2 })
+    .notNull()
+    .default('0')
+    .$type<number>(),
+  principalPaid: decimal('principal_paid', { precision: 12, scale: 2 })
+    .notNull()
+    .default('0')
+    .$type<number>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Loan charges table (fees, penalties and other charges added to a loan)
+export const loanCharges = pgTable('loan_charges', {
+  id: serial('id').primaryKey(),
+  loanId: integer('loan_id')
+    .notNull()
+    .references(() => loans.id, { onDelete: 'cascade' }),
+  // Installment an automatic penalty was accrued for
+  paymentId: integer('payment_id').references(() => upcomingPayments.id, {
+    onDelete: 'set null',
+  }),
+  chargeType: chargeTypeEnum('charge_type').notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  chargeDate: date('charge_date').notNull(),
+  description: text('description'),
+  isAutomatic: boolean('is_automatic').notNull().default(false),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Loan rate changes table (scheduled repricing and promo rate expiries).
+// A loan's own interest rate applies until its first change takes effect.
+export const loanRateChanges = pgTable('loan_rate_changes', {
+  id: serial('id').primaryKey(),
+  loanId: integer('loan_id')
+    .notNull()
+    .references(() => loans.id, { onDelete: 'cascade' }),
+  effectiveDate: date('effective_date').notNull(),
+  interestRate: decimal('interest_rate', { precision: 5, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Balance events table (append-only ledger of every change to a loan balance)
+export const balanceEvents = pgTable('balance_events', {
+  id: serial('id').primaryKey(),
+  loanId: integer('loan_id')
+    .notNull()
+    .references(() => loans.id, { onDelete: 'cascade' }),
+  eventType: balanceEventTypeEnum('event_type').notNull(),
+  // Signed change to the balance (negative when the balance went down)
+  amount: decimal('amount', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  balanceAfter: decimal('balance_after', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  eventDate: date('event_date').notNull(),
+  paymentId: integer('payment_id').references(() => upcomingPayments.id, {
+    onDelete: 'set null',
+  }),
+  chargeId: integer('charge_id').references(() => loanCharges.id, {
+    onDelete: 'set null',
+  }),
+  description: text('description'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Monthly budget table
 export const monthlyBudget = pgTable('monthly_budget', {
   id: serial('id').primaryKey(),
@@ -100,11 +306,108 @@ export const monthlyBudget = pgTable('monthly_budget', {
     .$type<number>(),
   effectiveDate: date('effective_date').notNull(),
   isActive: boolean('is_active').notNull().default(false),
+  // Set for a budget saved ahead of its effective date; it becomes the
+  // active budget once that date arrives
+  isScheduled: boolean('is_scheduled').notNull().default(false),
   notes: text('notes'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Windfalls table (planned one-off lump sums such as a 13th-month pay or bonus)
+export const windfalls = pgTable('windfalls', {
+  id: serial('id').primaryKey(),
+  description: varchar('description', { length: 255 }).notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  windfallDate: date('windfall_date').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Tuning for strategies that need it; a single row holds the current values
+export const strategySettings = pgTable('strategy_settings', {
+  id: serial('id').primaryKey(),
+  // Snowflake pays smallest balances first until this many loans are closed
+  snowflakeLoansToClose: integer('snowflake_loans_to_close').notNull().default(1),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// What-if scenarios: copies of the loans, budget and strategy that can be
+// edited and simulated without touching the live plan
+export const scenarios = pgTable('scenarios', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  strategyType: strategyTypeEnum('strategy_type'),
+  // Null means no budget beyond the minimum payments
+  monthlyAllocation: decimal('monthly_allocation', { precision: 12, scale: 2 })
+    .$type<number>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const scenarioLoans = pgTable('scenario_loans', {
+  id: serial('id').primaryKey(),
+  scenarioId: integer('scenario_id')
+    .notNull()
+    .references(() => scenarios.id, { onDelete: 'cascade' }),
+  // The live loan this was copied from; null for loans added in the scenario
+  sourceLoanId: integer('source_loan_id').references(() => loans.id, {
+    onDelete: 'set null',
+  }),
+  lenderName: varchar('lender_name', { length: 255 }).notNull(),
+  sourceType: sourceTypeEnum('source_type').notNull(),
+  accountType: accountTypeEnum('account_type').notNull().default('installment'),
+  principalAmount: decimal('principal_amount', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  currentBalance: decimal('current_balance', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  outstandingCharges: decimal('outstanding_charges', { precision: 12, scale: 2 })
+    .notNull()
+    .default('0')
+    .$type<number>(),
+  interestRate: decimal('interest_rate', { precision: 5, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  interestMethod: interestMethodEnum('interest_method')
+    .notNull()
+    .default('diminishing'),
+  loanTermMonths: integer('loan_term_months').notNull(),
+  startDate: date('start_date').notNull(),
+  paymentFrequency: paymentFrequencyEnum('payment_frequency').notNull(),
+  minimumPayment: decimal('minimum_payment', { precision: 12, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  minimumPaymentRule: minimumPaymentRuleEnum('minimum_payment_rule')
+    .notNull()
+    .default('fixed'),
+  minimumPaymentPercent: decimal('minimum_payment_percent', { precision: 5, scale: 2 })
+    .$type<number>(),
+  minimumPaymentFloor: decimal('minimum_payment_floor', { precision: 12, scale: 2 })
+    .$type<number>(),
+  priorityOrder: integer('priority_order'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// A scenario loan's rate schedule, copied from the live loan when the
+// scenario was created so later live edits don't leak into it
+export const scenarioLoanRateChanges = pgTable('scenario_loan_rate_changes', {
+  id: serial('id').primaryKey(),
+  scenarioLoanId: integer('scenario_loan_id')
+    .notNull()
+    .references(() => scenarioLoans.id, { onDelete: 'cascade' }),
+  effectiveDate: date('effective_date').notNull(),
+  interestRate: decimal('interest_rate', { precision: 5, scale: 2 })
+    .notNull()
+    .$type<number>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Auth table
 export const auth = pgTable('auth', {
   id: serial('id').primaryKey(),
@@ -116,15 +419,80 @@ export const auth = pgTable('auth', {
 // Relations
 export const loansRelations = relations(loans, ({ many }) => ({
   upcomingPayments: many(upcomingPayments),
+  charges: many(loanCharges),
+  balanceEvents: many(balanceEvents),
+  rateChanges: many(loanRateChanges),
 }));
 
 export const upcomingPaymentsRelations = relations(
   upcomingPayments,
-  ({ one }) => ({
+  ({ one, many }) => ({
     loan: one(loans, {
       fields: [upcomingPayments.loanId],
       references: [loans.id],
     }),
+    transactions: many(paymentTransactions),
+  })
+);
+
+export const paymentTransactionsRelations = relations(
+  paymentTransactions,
+  ({ one }) => ({
+    payment: one(upcomingPayments, {
+      fields: [paymentTransactions.paymentId],
+      references: [upcomingPayments.id],
+    }),
+  })
+);
+
+export const loanChargesRelations = relations(loanCharges, ({ one }) => ({
+  loan: one(loans, {
+    fields: [loanCharges.loanId],
+    references: [loans.id],
+  }),
+  payment: one(upcomingPayments, {
+    fields: [loanCharges.paymentId],
+    references: [upcomingPayments.id],
+  }),
+}));
+
+export const loanRateChangesRelations = relations(loanRateChanges, ({ one }) => ({
+  loan: one(loans, {
+    fields: [loanRateChanges.loanId],
+    references: [loans.id],
+  }),
+}));
+
+export const balanceEventsRelations = relations(balanceEvents, ({ one }) => ({
+  loan: one(loans, {
+    fields: [balanceEvents.loanId],
+    references: [loans.id],
+  }),
+}));
+
+export const scenariosRelations = relations(scenarios, ({ many }) => ({
+  loans: many(scenarioLoans),
+}));
+
+export const scenarioLoansRelations = relations(scenarioLoans, ({ one, many }) => ({
+  scenario: one(scenarios, {
+    fields: [scenarioLoans.scenarioId],
+    references: [scenarios.id],
+  }),
+  sourceLoan: one(loans, {
+    fields: [scenarioLoans.sourceLoanId],
+    references: [loans.id],
+  }),
+  rateChanges: many(scenarioLoanRateChanges),
+}));
+
+export const scenarioLoanRateChangesRelations = relations(
+  scenarioLoanRateChanges,
+  ({ one }) => ({
+    scenarioLoan: one(scenarioLoans, {
+      fields: [scenarioLoanRateChanges.scenarioLoanId],
+      references: [scenarioLoans.id],
+    }),
   })
 );
 
@@ -135,8 +503,35 @@ export type NewLoan = typeof loans.$inferInsert;
 export type UpcomingPayment = typeof upcomingPayments.$inferSelect;
 export type NewUpcomingPayment = typeof upcomingPayments.$inferInsert;
 
+export type PaymentTransaction = typeof paymentTransactions.$inferSelect;
+export type NewPaymentTransaction = typeof paymentTransactions.$inferInsert;
+
+export type LoanCharge = typeof loanCharges.$inferSelect;
+export type NewLoanCharge = typeof loanCharges.$inferInsert;
+
+export type LoanRateChange = typeof loanRateChanges.$inferSelect;
+export type NewLoanRateChange = typeof loanRateChanges.$inferInsert;
+
+export type BalanceEvent = typeof balanceEvents.$inferSelect;
+export type NewBalanceEvent = typeof balanceEvents.$inferInsert;
+
 export type MonthlyBudget = typeof monthlyBudget.$inferSelect;
 export type NewMonthlyBudget = typeof monthlyBudget.$inferInsert;
 
+export type Windfall = typeof windfalls.$inferSelect;
+export type NewWindfall = typeof windfalls.$inferInsert;
+
+export type StrategySettings = typeof strategySettings.$inferSelect;
+export type NewStrategySettings = typeof strategySettings.$inferInsert;
+
+export type Scenario = typeof scenarios.$inferSelect;
+export type NewScenario = typeof scenarios.$inferInsert;
+
+export type ScenarioLoan = typeof scenarioLoans.$inferSelect;
+export type NewScenarioLoan = typeof scenarioLoans.$inferInsert;
+
+export type ScenarioLoanRateChange = typeof scenarioLoanRateChanges.$inferSelect;
+export type NewScenarioLoanRateChange = typeof scenarioLoanRateChanges.$inferInsert;
+
 export type Auth = typeof auth.$inferSelect;
 export type NewAuth = typeof auth.$inferInsert;
@@ -1,5 +1,11 @@
 import { db } from './index';
-import { loans, upcomingPayments, monthlyBudget } from './schema';
+import {
+  loans,
+  upcomingPayments,
+  monthlyBudget,
+  balanceEvents,
+  paymentTransactions,
+} from './schema';
 import { eq } from 'drizzle-orm';
 
 async function seed() {
@@ -200,6 +206,17 @@ async function seed() {
     const insertedLoans = await db.insert(loans).values(loansData).returning();
     console.log(`✅ Created ${insertedLoans.length} loans`);
 
+    // Open each loan's balance ledger
+    await db.insert(balanceEvents).values(
+      insertedLoans.map((loan) => ({
+        loanId: loan.id,
+        eventType: 'opening_balance' as const,
+        amount: loan.currentBalance,
+        balanceAfter: loan.currentBalance,
+        eventDate: new Date().toISOString().split('T')[0],
+      }))
+    );
+
     // Create upcoming payments for various scenarios
     console.log('📅 Creating upcoming payments...');
 
@@ -311,6 +328,21 @@ async function seed() {
       .returning();
     console.log(`✅ Created ${insertedPayments.length} payment records`);
 
+    // Record each paid installment as a single transaction
+    const paidPayments = insertedPayments.filter(
+      (payment) => payment.status === 'paid' && payment.amountPaid
+    );
+    await db.insert(paymentTransactions).values(
+      paidPayments.map((payment) => ({
+        paymentId: payment.id,
+        amount: Number(payment.amountPaid),
+        transactionDate: payment.paidDate ?? payment.dueDate,
+        method: 'bank_transfer' as const,
+        principalPaid: Number(payment.amountPaid),
+      }))
+    );
+    console.log(`✅ Created ${paidPayments.length} payment transactions`);
+
     // Summary
     console.log('\n📊 Seed Summary:');
     console.log(`   - Monthly Budget: ₱${budget.monthlyAllocation}`);
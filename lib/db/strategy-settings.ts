@@ -0,0 +1,42 @@
+import { db } from './index';
+import { strategySettings } from './schema';
+import { DEFAULT_STRATEGY_TUNING, type StrategyTuning } from '../loan-calculations';
+import { asc, eq } from 'drizzle-orm';
+
+/**
+ * Get the strategy tuning in effect, falling back to the defaults before
+ * any has been saved
+ */
+export async function getStrategyTuning(): Promise<StrategyTuning> {
+  const [settings] = await db
+    .select()
+    .from(strategySettings)
+    .orderBy(asc(strategySettings.id))
+    .limit(1);
+
+  return settings
+    ? { snowflakeLoansToClose: settings.snowflakeLoansToClose }
+    : DEFAULT_STRATEGY_TUNING;
+}
+
+/**
+ * Save the strategy tuning, creating the settings row on first use
+ */
+export async function saveStrategyTuning(tuning: StrategyTuning): Promise<StrategyTuning> {
+  const [existing] = await db
+    .select()
+    .from(strategySettings)
+    .orderBy(asc(strategySettings.id))
+    .limit(1);
+
+  if (existing) {
+    await db
+      .update(strategySettings)
+      .set({ ...tuning, updatedAt: new Date() })
+      .where(eq(strategySettings.id, existing.id));
+  } else {
+    await db.insert(strategySettings).values(tuning);
+  }
+
+  return tuning;
+}
@@ -0,0 +1,187 @@
+import { db, runInBatch } from './index';
+import { loans, upcomingPayments, type Loan } from './schema';
+import { accrueLoanPenalties } from './charges';
+import { activateDueBudgets } from './budgets';
+import { addDays, daysBetween, toDateString } from '../payment-schedule';
+import { eq, and, lt, inArray } from 'drizzle-orm';
+
+// Days after the due date before an unpaid installment counts as missed
+export const DEFAULT_MISSED_GRACE_DAYS = 30;
+
+// Days before the due date that a loan shows as upcoming
+const UPCOMING_WINDOW_DAYS = 7;
+
+export interface StatusUpdateOptions {
+  asOf?: string;
+  graceDays?: number;
+}
+
+export interface StatusUpdateResult {
+  asOf: string;
+  graceDays: number;
+  paymentsMarkedOverdue: number;
+  paymentsMarkedMissed: number;
+  loansUpdated: number;
+  penaltiesAccrued: number;
+  budgetActivated: number | null;
+}
+
+/**
+ * Read the missed-payment grace period from MISSED_PAYMENT_GRACE_DAYS
+ */
+export function getDefaultGraceDays(): number {
+  const configured = parseInt(process.env.MISSED_PAYMENT_GRACE_DAYS ?? '', 10);
+  return isNaN(configured) || configured < 0
+    ? DEFAULT_MISSED_GRACE_DAYS
+    : configured;
+}
+
+/**
+ * Work out a loan's status and next due date from its unpaid installments
+ */
+function deriveLoanStatus(
+  loan: Loan,
+  unpaidPayments: { dueDate: string; status: string }[],
+  asOf: string
+): Pick<Loan, 'paymentStatus' | 'nextPaymentDueDate'> {
+  const openPayments = unpaidPayments
+    .filter((payment) => payment.status !== 'missed')
+    .sort((a, b) => (a.dueDate > b.dueDate ? 1 : -1));
+  const nextPaymentDueDate =
+    openPayments.length > 0 ? openPayments[0].dueDate : loan.nextPaymentDueDate;
+
+  if (unpaidPayments.some((payment) => payment.dueDate < asOf)) {
+    return { paymentStatus: 'overdue', nextPaymentDueDate };
+  }
+  if (daysBetween(asOf, nextPaymentDueDate) <= UPCOMING_WINDOW_DAYS) {
+    return { paymentStatus: 'upcoming', nextPaymentDueDate };
+  }
+  return { paymentStatus: 'current', nextPaymentDueDate };
+}
+
+/**
+ * Move unpaid and part-paid installments to overdue once their due date
+ * passes and to missed after the grace period, accrue penalties on them,
+ * then recompute each active loan's payment status and next due date
+ */
+export async function updatePaymentStatuses(
+  options: StatusUpdateOptions = {}
+): Promise<StatusUpdateResult> {
+  const asOf = options.asOf ?? toDateString(new Date());
+  const graceDays = options.graceDays ?? getDefaultGraceDays();
+  const missedCutoff = addDays(asOf, -graceDays);
+
+  const [markedMissed, markedOverdue] = await db.batch([
+    db
+      .update(upcomingPayments)
+      .set({ status: 'missed', updatedAt: new Date() })
+      .where(
+        and(
+          inArray(upcomingPayments.status, ['pending', 'overdue', 'partial']),
+          lt(upcomingPayments.dueDate, missedCutoff)
+        )
+      )
+      .returning({ id: upcomingPayments.id }),
+    db
+      .update(upcomingPayments)
+      .set({ status: 'overdue', updatedAt: new Date() })
+      .where(
+        and(
+          inArray(upcomingPayments.status, ['pending', 'partial']),
+          lt(upcomingPayments.dueDate, asOf)
+        )
+      )
+      .returning({ id: upcomingPayments.id }),
+  ]);
+
+  const activeLoans = await db
+    .select()
+    .from(loans)
+    .where(eq(loans.isActive, true));
+
+  let penaltiesAccrued = 0;
+  for (const loan of activeLoans) {
+    const result = await accrueLoanPenalties(loan, asOf);
+    penaltiesAccrued += result.totalAccrued;
+  }
+
+  const unpaidPayments =
+    activeLoans.length > 0
+      ? await db
+        .select({
+          loanId: upcomingPayments.loanId,
+          dueDate: upcomingPayments.dueDate,
+          status: upcomingPayments.status,
+        })
+        .from(upcomingPayments)
+        .where(
+          and(
+            inArray(
+              upcomingPayments.loanId,
+              activeLoans.map((loan) => loan.id)
+            ),
+            inArray(upcomingPayments.status, [
+              'pending',
+              'overdue',
+              'missed',
+              'partial',
+            ])
+          )
+        )
+      : [];
+
+  const loanUpdates = activeLoans.flatMap((loan) => {
+    const status = deriveLoanStatus(
+      loan,
+      unpaidPayments.filter((payment) => payment.loanId === loan.id),
+      asOf
+    );
+    if (
+      status.paymentStatus === loan.paymentStatus &&
+      status.nextPaymentDueDate === loan.nextPaymentDueDate
+    ) {
+      return [];
+    }
+    return [
+      db
+        .update(loans)
+        .set({ ...status, updatedAt: new Date() })
+        .where(eq(loans.id, loan.id)),
+    ];
+  });
+
+  await runInBatch(loanUpdates);
+
+  // Scheduled budgets take over on their effective date
+  const activatedBudget = await activateDueBudgets(asOf);
+
+  return {
+    asOf,
+    graceDays,
+    paymentsMarkedOverdue: markedOverdue.length,
+    paymentsMarkedMissed: markedMissed.length,
+    loansUpdated: loanUpdates.length,
+    penaltiesAccrued: Math.round(penaltiesAccrued * 100) / 100,
+    budgetActivated: activatedBudget?.id ?? null,
+  };
+}
+
+// Run status updates if called directly
+if (process.argv[1]?.includes('update-statuses.ts')) {
+  updatePaymentStatuses()
+    .then((result) => {
+      console.log(`⏰ Status update as of ${result.asOf} (grace period ${result.graceDays} days)`);
+      console.log(`   - Marked overdue: ${result.paymentsMarkedOverdue}`);
+      console.log(`   - Marked missed: ${result.paymentsMarkedMissed}`);
+      console.log(`   - Loans updated: ${result.loansUpdated}`);
+      console.log(`   - Penalties accrued: ${result.penaltiesAccrued}`);
+      if (result.budgetActivated !== null) {
+        console.log(`   - Scheduled budget activated: #${result.budgetActivated}`);
+      }
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Status update failed:', error);
+      process.exit(1);
+    });
+}
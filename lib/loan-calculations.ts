@@ -1,4 +1,24 @@
-import type { Loan, MonthlyBudget } from './db/schema';
+import type {
+  Loan,
+  LoanRateChange,
+  MonthlyBudget,
+  StrategySettings,
+  Windfall,
+} from './db/schema';
+import {
+  addDays,
+  addMonthsClamped,
+  addPaymentPeriods,
+  calculateMaturityDate,
+  calendarMonthsBetween,
+  getPaymentDueDay,
+  getPaymentsPerYear,
+  monthsBetween,
+  parseDateString,
+  toDateString,
+  type PaymentFrequency,
+  type ScheduledInstallment,
+} from './payment-schedule';
 
 export interface PaymentProjection {
   loanId: number;
@@ -8,6 +28,196 @@ export interface PaymentProjection {
   payoffDate: Date;
 }
 
+export interface AmortizationRow {
+  period: number;
+  date: string;
+  openingBalance: number;
+  interest: number;
+  principal: number;
+  payment: number;
+  closingBalance: number;
+}
+
+export type InterestMethod = Loan['interestMethod'];
+
+export type InterestTerms = Pick<
+  Loan,
+  'interestMethod' | 'interestRate' | 'principalAmount' | 'paymentFrequency'
+>;
+
+export type MinimumPaymentRule = Loan['minimumPaymentRule'];
+
+// Loans without a rule bill their fixed installment
+export type MinimumPaymentTerms = Pick<Loan, 'minimumPayment'> &
+  Partial<
+    Pick<
+      Loan,
+      'minimumPaymentRule' | 'minimumPaymentPercent' | 'minimumPaymentFloor'
+    >
+  >;
+
+export interface AmortizationInput {
+  balance: number;
+  payment: number;
+  // Interest charged for one period on the given opening balance, for the
+  // period that opens on `periodStart`
+  periodInterest: (balance: number, periodStart: string) => number;
+  firstPaymentDate: string;
+  frequency: PaymentFrequency;
+  // Day of the month monthly installments fall on after the first
+  dueDay?: number;
+  // Bill the minimum due on each period's balance plus interest instead of
+  // a fixed payment (loans with a balance-based minimum payment rule)
+  minimumPaymentFor?: (statementBalance: number, interest: number) => number;
+  // Stop a loan that never amortizes once this date is reached
+  maturityDate?: string;
+}
+
+export interface PaymentSplit {
+  feesPaid: number;
+  interestPaid: number;
+  principalPaid: number;
+}
+
+export type PrepaymentMode = 'recast' | 'shorten_term';
+
+export interface PrepaymentTerms {
+  currentBalance: number;
+  minimumPayment: number;
+  loanTermMonths: number;
+}
+
+export interface ConsolidationTerms {
+  interestRate: number;
+  interestMethod: InterestMethod;
+  loanTermMonths: number;
+  paymentFrequency: PaymentFrequency;
+  // Disbursement date; the first installment falls one period later
+  startDate: string;
+  // Upfront fees withheld from the proceeds
+  fees: number;
+  // Defaults to exactly what's needed to pay off the sources and the fees
+  principalAmount?: number;
+}
+
+export interface DebtOutlook {
+  monthlyPayment: number;
+  totalInterest: number;
+  payoffDate: string | null;
+}
+
+export interface ConsolidationPlan {
+  payoffAmount: number;
+  newLoan: Pick<
+    Loan,
+    | 'principalAmount'
+    | 'currentBalance'
+    | 'interestRate'
+    | 'interestMethod'
+    | 'loanTermMonths'
+    | 'startDate'
+    | 'paymentFrequency'
+    | 'minimumPayment'
+    | 'nextPaymentDueDate'
+    | 'paymentDueDay'
+  >;
+  // Proceeds left over after the fees and payoffs, released to the borrower
+  cashOut: number;
+  before: DebtOutlook;
+  after: DebtOutlook;
+}
+
+export type PlannedWindfall = Pick<Windfall, 'id' | 'amount' | 'windfallDate'>;
+
+export type BudgetChange = Pick<MonthlyBudget, 'effectiveDate' | 'monthlyAllocation'>;
+
+export type RateChange = Pick<LoanRateChange, 'loanId' | 'effectiveDate' | 'interestRate'>;
+
+export interface UpcomingRateChange {
+  loanId: number;
+  effectiveDate: string;
+  previousRate: number;
+  interestRate: number;
+  // The rate goes up, as when a promotional rate runs out
+  isPromoExpiry: boolean;
+}
+
+export type StrategyType = NonNullable<Loan['strategyType']>;
+
+export const STRATEGY_LABELS: Record<StrategyType, string> = {
+  snowball: 'Snowball Method',
+  avalanche: 'Avalanche Method',
+  custom: 'Custom Priority',
+  interest_cost: 'Highest Interest Cost',
+  cash_flow_index: 'Cash-Flow Index',
+  snowflake: 'Snowflake Hybrid',
+  lender_type: 'Lender Type Priority',
+};
+
+export type StrategyTuning = Pick<StrategySettings, 'snowflakeLoansToClose'>;
+
+export const DEFAULT_STRATEGY_TUNING: StrategyTuning = {
+  snowflakeLoansToClose: 1,
+};
+
+// Lender-type priority clears app loans first, then banks, then people
+export const LENDER_TYPE_PRIORITY: Loan['sourceType'][] = ['mobile_app', 'bank', 'person'];
+
+/**
+ * What a strategy ranks a loan on. `rate` orders avalanche; callers pick the
+ * measure of interest cost that suits them.
+ */
+export interface StrategyRanking {
+  balance: number;
+  rate: number;
+  monthlyInterest: number;
+  minimumPayment: number;
+  priorityOrder: number;
+  sourceType: Loan['sourceType'];
+}
+
+export interface SimulationOptions {
+  // Calendar date of the first simulated month (defaults to today)
+  startDate?: string;
+  // Settings for strategies that take them (snowflake)
+  strategyTuning?: StrategyTuning;
+  // One-off lump sums paid on top of the budget in the month they land
+  windfalls?: PlannedWindfall[];
+  // Future budgets that replace the monthly allocation from their month on
+  budgetChanges?: BudgetChange[];
+  // Scheduled rate changes, applied from the month they take effect
+  rateChanges?: RateChange[];
+}
+
+export interface ProjectionOptions extends SimulationOptions {
+  // Include the month-by-month timeline of the strategy scenario
+  includeTimeline?: boolean;
+}
+
+export interface ProjectionLoanMonth {
+  loanId: number;
+  payment: number;
+  interest: number;
+  // Balance left at the end of the month
+  balance: number;
+}
+
+export interface ProjectionMonth {
+  month: number;
+  date: string;
+  loans: ProjectionLoanMonth[];
+  totalBalance: number;
+  // Minimum payments of loans already paid off, redirected to the rest
+  rollover: number;
+  windfall: number;
+}
+
+export interface WindfallImpact {
+  windfallId: number;
+  interestSaved: number;
+  monthsSaved: number;
+}
+
 export interface StrategyProjection {
   loans: PaymentProjection[];
   totalMonths: number;
@@ -15,6 +225,36 @@ export interface StrategyProjection {
   interestSavings: number;
   timeSavings: number;
   extraPaymentAllocations: Record<number, number>;
+  windfallImpacts: WindfallImpact[];
+  timeline?: ProjectionMonth[];
+}
+
+export interface BudgetGoal {
+  // Latest calendar date the debts (or one loan) should be paid off by
+  targetDate: string;
+  // Only this loan has to meet the target when set
+  loanId?: number;
+}
+
+export interface BudgetGoalResult {
+  // Smallest monthly budget (to the peso) that meets the target, or null
+  // when no budget can
+  requiredAllocation: number | null;
+  monthlyObligation: number;
+  // Payoff date reached with the required budget
+  payoffDate: Date | null;
+}
+
+export interface StrategyComparison {
+  name: string;
+  strategyType: StrategyType | null;
+  totalInterest: number;
+  totalMonths: number;
+  debtFreeDate: Date | null;
+  firstPayoffDate: Date | null;
+  loansClosedIn12Months: number;
+  // Set when the row is a saved what-if scenario rather than the live plan
+  scenarioId?: number;
 }
 
 /**
@@ -24,39 +264,606 @@ export function calculateMonthlyRate(apr: number): number {
   return apr / 100 / 12;
 }
 
+/**
+ * Calculate the effective monthly rate when interest compounds per installment
+ * period (weekly/bi-weekly loans compound more than 12 times a year)
+ */
+export function calculateEffectiveMonthlyRate(
+  apr: number,
+  frequency: PaymentFrequency
+): number {
+  if (frequency === 'monthly') {
+    return calculateMonthlyRate(apr);
+  }
+  const paymentsPerYear = getPaymentsPerYear(frequency);
+  return Math.pow(1 + apr / 100 / paymentsPerYear, paymentsPerYear / 12) - 1;
+}
+
+/**
+ * Number of installments that fall in an average month for a frequency
+ */
+export function getPaymentsPerMonth(frequency: PaymentFrequency): number {
+  return getPaymentsPerYear(frequency) / 12;
+}
+
+/**
+ * Whether a loan's minimum due is worked out from its balance rather than
+ * being a fixed installment
+ */
+export function hasBalanceBasedMinimum(terms: MinimumPaymentTerms): boolean {
+  return (terms.minimumPaymentRule ?? 'fixed') !== 'fixed';
+}
+
+/**
+ * Calculate the minimum due on a statement balance that includes
+ * `interest` for the period. Percent-of-balance rules owe the larger of the
+ * floor and a percentage of the balance; interest-plus-percent rules owe
+ * the interest plus a percentage of the principal, held to the same floor.
+ * Neither owes more than the balance itself. Fixed rules owe the installment.
+ */
+export function calculateMinimumPaymentDue(
+  terms: MinimumPaymentTerms,
+  statementBalance: number,
+  interest = 0
+): number {
+  if (!hasBalanceBasedMinimum(terms)) {
+    return Number(terms.minimumPayment);
+  }
+  if (statementBalance <= 0) {
+    return 0;
+  }
+  const percent = Number(terms.minimumPaymentPercent ?? 0) / 100;
+  const percentDue =
+    terms.minimumPaymentRule === 'interest_plus_percent'
+      ? interest + Math.max(0, statementBalance - interest) * percent
+      : statementBalance * percent;
+  const minimum = Math.max(Number(terms.minimumPaymentFloor ?? 0), percentDue);
+  return Math.min(statementBalance, Math.ceil(minimum * 100) / 100);
+}
+
+/**
+ * Convert a loan's per-installment minimum payment to a monthly amount
+ * (e.g. ₱500 weekly = ₱500 × 52 / 12 ≈ ₱2,166.67 per month). Loans with a
+ * balance-based rule use the minimum due on their current balance.
+ */
+export function calculateMonthlyPaymentAmount(
+  loan: MinimumPaymentTerms &
+    InterestTerms &
+    Partial<Pick<Loan, 'currentBalance'>>
+): number {
+  let minimumPayment = Number(loan.minimumPayment);
+  if (hasBalanceBasedMinimum(loan)) {
+    const balance = Number(loan.currentBalance ?? 0);
+    const interest = calculatePeriodInterest(balance, loan);
+    minimumPayment = calculateMinimumPaymentDue(loan, balance + interest, interest);
+  }
+  return minimumPayment * getPaymentsPerMonth(loan.paymentFrequency);
+}
+
+/**
+ * Calculate how much of a revolving account's credit limit is in use, as a
+ * percentage, or null when it has no limit
+ */
+export function calculateUtilization(
+  loan: Pick<Loan, 'currentBalance' | 'creditLimit'>
+): number | null {
+  const creditLimit = Number(loan.creditLimit ?? 0);
+  if (creditLimit <= 0) {
+    return null;
+  }
+  return (Number(loan.currentBalance) / creditLimit) * 100;
+}
+
+/**
+ * Calculate the interest rate applied to each installment period from APR
+ */
+export function calculatePeriodicRate(
+  apr: number,
+  frequency: PaymentFrequency
+): number {
+  return apr / 100 / getPaymentsPerYear(frequency);
+}
+
+/**
+ * Calculate interest charged for one installment period on a balance.
+ * How `interestRate` is read depends on the loan's interest method:
+ * - diminishing: APR on the outstanding balance
+ * - add_on: flat monthly rate on the original principal
+ * - simple: annual rate on the original principal, never compounded
+ * - zero_interest: fixed installments, rate is ignored
+ */
+export function calculatePeriodInterest(
+  balance: number,
+  terms: InterestTerms
+): number {
+  if (balance <= 0) {
+    return 0;
+  }
+
+  const rate = Number(terms.interestRate);
+  const principal = Number(terms.principalAmount);
+  const paymentsPerYear = getPaymentsPerYear(terms.paymentFrequency);
+
+  switch (terms.interestMethod) {
+    case 'add_on':
+      return (
+        (principal * rate) / 100 / getPaymentsPerMonth(terms.paymentFrequency)
+      );
+    case 'simple':
+      return (principal * rate) / 100 / paymentsPerYear;
+    case 'zero_interest':
+      return 0;
+    default:
+      return balance * calculatePeriodicRate(rate, terms.paymentFrequency);
+  }
+}
+
+/**
+ * Calculate interest charged over one month on a balance
+ */
+export function calculateMonthlyInterest(
+  balance: number,
+  terms: InterestTerms
+): number {
+  if (terms.interestMethod === 'diminishing') {
+    return (
+      balance *
+      calculateEffectiveMonthlyRate(
+        Number(terms.interestRate),
+        terms.paymentFrequency
+      )
+    );
+  }
+  return (
+    calculatePeriodInterest(balance, terms) *
+    getPaymentsPerMonth(terms.paymentFrequency)
+  );
+}
+
+/**
+ * Calculate interest accrued on a balance over a number of days by
+ * prorating the loan's per-installment interest
+ */
+export function calculateAccruedInterest(
+  balance: number,
+  terms: InterestTerms,
+  days: number
+): number {
+  if (days <= 0) {
+    return 0;
+  }
+  const daysPerPeriod = 365 / getPaymentsPerYear(terms.paymentFrequency);
+  return (calculatePeriodInterest(balance, terms) * days) / daysPerPeriod;
+}
+
+/**
+ * Calculate the level installment that pays off a balance over a number of
+ * periods, as a lender does when recasting a loan after a prepayment
+ */
+export function calculateLevelPayment(
+  balance: number,
+  terms: InterestTerms,
+  periods: number
+): number {
+  if (balance <= 0 || periods <= 0) {
+    return 0;
+  }
+
+  const roundUp = (value: number) => Math.ceil(value * 100) / 100;
+  const rate = calculatePeriodicRate(
+    Number(terms.interestRate),
+    terms.paymentFrequency
+  );
+
+  if (terms.interestMethod === 'diminishing' && rate > 0) {
+    return roundUp((balance * rate) / (1 - Math.pow(1 + rate, -periods)));
+  }
+  // Flat-rate interest doesn't shrink with the balance
+  return roundUp(balance / periods + calculatePeriodInterest(balance, terms));
+}
+
+/**
+ * Allocate a payment in lender order: outstanding fees first, then accrued
+ * interest, then principal. Interest the payment doesn't cover is
+ * capitalized, which shows up as negative principal.
+ */
+export function allocatePayment(
+  amount: number,
+  outstandingCharges: number,
+  accruedInterest: number
+): PaymentSplit {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const feesPaid = round(Math.min(amount, Math.max(0, outstandingCharges)));
+  const interest = round(Math.max(0, accruedInterest));
+  const interestPaid = round(Math.min(amount - feesPaid, interest));
+  const principalPaid = round(amount - feesPaid - interest);
+
+  return { feesPaid, interestPaid, principalPaid };
+}
+
+/**
+ * Calculate the annualized interest cost of a loan as a percentage of its
+ * current balance, so flat-rate and APR loans can be ranked together
+ */
+export function calculateEffectiveAnnualRate(
+  loan: InterestTerms & Pick<Loan, 'currentBalance'>
+): number {
+  const balance = Number(loan.currentBalance);
+  if (balance <= 0) {
+    return 0;
+  }
+  return (calculateMonthlyInterest(balance, loan) / balance) * 12 * 100;
+}
+
+/**
+ * Get a loan's interest rate in effect on a date from its own rate changes:
+ * the latest change on or before the date, or the loan's rate before any
+ */
+export function getInterestRateOn(
+  loan: Pick<Loan, 'interestRate'>,
+  rateChanges: Pick<RateChange, 'effectiveDate' | 'interestRate'>[],
+  date: string
+): number {
+  const inEffect = rateChanges
+    .filter((change) => change.effectiveDate <= date)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  return Number(inEffect[inEffect.length - 1]?.interestRate ?? loan.interestRate);
+}
+
+/**
+ * Swap each loan's rate for the one in effect on a date, so code that reads
+ * `interestRate` directly (strategy rankings, accrued interest) sees it
+ */
+export function applyRatesOn<T extends Pick<Loan, 'id' | 'interestRate'>>(
+  loans: T[],
+  rateChanges: RateChange[],
+  date: string
+): T[] {
+  return loans.map((loan) => ({
+    ...loan,
+    interestRate: getInterestRateOn(
+      loan,
+      rateChanges.filter((change) => change.loanId === loan.id),
+      date
+    ),
+  }));
+}
+
+/**
+ * List the loans' rate changes still to come with the rate each replaces,
+ * soonest first. A rise is flagged as a promo expiry.
+ */
+export function getUpcomingRateChanges(
+  loans: Pick<Loan, 'id' | 'interestRate'>[],
+  rateChanges: RateChange[],
+  asOf: string
+): UpcomingRateChange[] {
+  return loans
+    .flatMap((loan) => {
+      const loanChanges = rateChanges.filter((change) => change.loanId === loan.id);
+      return loanChanges
+        .filter((change) => change.effectiveDate > asOf)
+        .map((change) => {
+          const previousRate = getInterestRateOn(
+            loan,
+            loanChanges,
+            addDays(change.effectiveDate, -1)
+          );
+          const interestRate = Number(change.interestRate);
+          return {
+            loanId: loan.id,
+            effectiveDate: change.effectiveDate,
+            previousRate,
+            interestRate,
+            isPromoExpiry: interestRate > previousRate,
+          };
+        });
+    })
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+}
+
+/**
+ * Build the per-installment amortization rows for a balance and payment
+ */
+export function buildAmortizationRows(
+  input: AmortizationInput
+): AmortizationRow[] {
+  const maxPeriods = getPaymentsPerYear(input.frequency) * 50; // 50 years max
+  const rows: AmortizationRow[] = [];
+  let balance = input.balance;
+
+  if (input.payment <= 0) {
+    return rows;
+  }
+
+  for (let period = 1; balance > 0.01 && period <= maxPeriods; period++) {
+    const date = addPaymentPeriods(
+      input.firstPaymentDate,
+      input.frequency,
+      period - 1,
+      input.dueDay
+    );
+    const periodStart = addPaymentPeriods(
+      input.firstPaymentDate,
+      input.frequency,
+      period - 2,
+      input.dueDay
+    );
+    const interest = input.periodInterest(balance, periodStart);
+    const amountDue = input.minimumPaymentFor
+      ? input.minimumPaymentFor(balance + interest, interest)
+      : input.payment;
+
+    // Payment doesn't cover interest, loan will never be paid off
+    if (
+      amountDue <= interest &&
+      period > 1 &&
+      (!input.maturityDate || date > input.maturityDate)
+    ) {
+      break;
+    }
+
+    const payment = Math.min(amountDue, balance + interest);
+    const principal = payment - interest;
+    const closingBalance = Math.max(0, balance - principal);
+
+    rows.push({
+      period,
+      date,
+      openingBalance: Math.round(balance * 100) / 100,
+      interest: Math.round(interest * 100) / 100,
+      principal: Math.round(principal * 100) / 100,
+      payment: Math.round(payment * 100) / 100,
+      closingBalance: Math.round(closingBalance * 100) / 100,
+    });
+
+    balance = closingBalance;
+  }
+
+  return rows;
+}
+
+/**
+ * Build a loan's amortization table, either from its current balance and
+ * next due date or from origination (principal amount and start date).
+ * Each period is charged the rate in effect on the day it opens.
+ */
+export function buildAmortizationSchedule(
+  loan: Pick<
+    Loan,
+    | 'principalAmount'
+    | 'currentBalance'
+    | 'interestRate'
+    | 'interestMethod'
+    | 'loanTermMonths'
+    | 'startDate'
+    | 'paymentFrequency'
+    | 'minimumPayment'
+    | 'nextPaymentDueDate'
+    | 'paymentDueDay'
+  > &
+    Partial<Pick<Loan, 'accountType'>> &
+    MinimumPaymentTerms,
+  basis: 'current' | 'original' = 'current',
+  rateChanges: Pick<RateChange, 'effectiveDate' | 'interestRate'>[] = []
+): AmortizationRow[] {
+  const fromOrigination = basis === 'original';
+
+  return buildAmortizationRows({
+    balance: Number(
+      fromOrigination ? loan.principalAmount : loan.currentBalance
+    ),
+    payment: Number(loan.minimumPayment),
+    periodInterest: (balance, periodStart) =>
+      calculatePeriodInterest(balance, {
+        ...loan,
+        interestRate: getInterestRateOn(loan, rateChanges, periodStart),
+      }),
+    firstPaymentDate: fromOrigination
+      ? addPaymentPeriods(loan.startDate, loan.paymentFrequency, 1)
+      : loan.nextPaymentDueDate,
+    frequency: loan.paymentFrequency,
+    dueDay: getPaymentDueDay(loan),
+    maturityDate: calculateMaturityDate(loan),
+    minimumPaymentFor: hasBalanceBasedMinimum(loan)
+      ? (statementBalance, interest) =>
+        calculateMinimumPaymentDue(loan, statementBalance, interest)
+      : undefined,
+  });
+}
+
+/**
+ * Generate the remaining installment series for a loan, starting at its
+ * next due date and ending at maturity or when the balance is paid off
+ */
+export function generatePaymentSchedule(
+  loan: Parameters<typeof buildAmortizationSchedule>[0],
+  rateChanges: Parameters<typeof buildAmortizationSchedule>[2] = []
+): ScheduledInstallment[] {
+  const maturityDate = calculateMaturityDate(loan);
+
+  return buildAmortizationSchedule(loan, 'current', rateChanges)
+    // Always keep the next due installment, even past maturity. Revolving
+    // accounts are billed one statement at a time.
+    .filter(
+      (row) =>
+        row.period === 1 ||
+        (loan.accountType !== 'revolving' && row.date <= maturityDate)
+    )
+    .map((row) => ({ dueDate: row.date, amountDue: row.payment }));
+}
+
+/**
+ * Work out a loan's balance and terms after a lump-sum principal
+ * prepayment. A recast keeps the remaining number of installments and
+ * lowers the minimum payment; a shortened term keeps the payment and moves
+ * maturity earlier.
+ */
+export function calculatePrepaymentTerms(
+  loan: Parameters<typeof buildAmortizationSchedule>[0],
+  amount: number,
+  mode: PrepaymentMode
+): PrepaymentTerms {
+  const currentBalance = Math.max(0, Number(loan.currentBalance) - amount);
+  const unchanged = {
+    currentBalance,
+    minimumPayment: Number(loan.minimumPayment),
+    loanTermMonths: loan.loanTermMonths,
+  };
+
+  if (currentBalance <= 0.01) {
+    return unchanged;
+  }
+
+  if (mode === 'recast') {
+    return {
+      ...unchanged,
+      minimumPayment: calculateLevelPayment(
+        currentBalance,
+        loan,
+        generatePaymentSchedule(loan).length
+      ),
+    };
+  }
+
+  const schedule = buildAmortizationSchedule({ ...loan, currentBalance });
+  if (schedule.length === 0) {
+    return unchanged;
+  }
+  const payoffTerm = monthsBetween(
+    loan.startDate,
+    schedule[schedule.length - 1].date
+  );
+
+  return {
+    ...unchanged,
+    loanTermMonths: Math.max(1, Math.min(loan.loanTermMonths, payoffTerm)),
+  };
+}
+
+/**
+ * Project a set of loans paid on their own schedules and at their scheduled
+ * rates: combined monthly payment, interest still to be charged and the
+ * last payoff date
+ */
+function outlookFor(
+  loans: (Parameters<typeof buildAmortizationSchedule>[0] & { id?: number })[],
+  rateChanges: RateChange[] = []
+): DebtOutlook {
+  const schedules = loans.map((loan) =>
+    buildAmortizationSchedule(
+      loan,
+      'current',
+      rateChanges.filter((change) => change.loanId === loan.id)
+    )
+  );
+  const payoffDates = schedules
+    .map((rows) => rows[rows.length - 1]?.date)
+    .filter((date): date is string => date !== undefined)
+    .sort();
+
+  return {
+    monthlyPayment:
+      Math.round(
+        loans.reduce((sum, loan) => sum + calculateMonthlyPaymentAmount(loan), 0) * 100
+      ) / 100,
+    totalInterest:
+      Math.round(
+        schedules.flat().reduce((sum, row) => sum + row.interest, 0) * 100
+      ) / 100,
+    payoffDate: payoffDates[payoffDates.length - 1] ?? null,
+  };
+}
+
+/**
+ * Plan a consolidation: the new loan that pays off the source loans, the
+ * cash left over, and the source loans' outlook (at their scheduled rates)
+ * against the new loan's. The new loan's interest excludes its fees, which
+ * are reported apart.
+ */
+export function calculateConsolidation(
+  sourceLoans: (Parameters<typeof buildAmortizationSchedule>[0] & Pick<Loan, 'id'>)[],
+  terms: ConsolidationTerms,
+  rateChanges: RateChange[] = []
+): ConsolidationPlan {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const payoffAmount = round(
+    sourceLoans.reduce((sum, loan) => sum + Number(loan.currentBalance), 0)
+  );
+  const principalAmount = round(terms.principalAmount ?? payoffAmount + terms.fees);
+  const periods = Math.round(
+    terms.loanTermMonths * getPaymentsPerMonth(terms.paymentFrequency)
+  );
+  const nextPaymentDueDate = addPaymentPeriods(
+    terms.startDate,
+    terms.paymentFrequency,
+    1
+  );
+
+  const newLoan: ConsolidationPlan['newLoan'] = {
+    principalAmount,
+    currentBalance: principalAmount,
+    interestRate: terms.interestRate,
+    interestMethod: terms.interestMethod,
+    loanTermMonths: terms.loanTermMonths,
+    startDate: terms.startDate,
+    paymentFrequency: terms.paymentFrequency,
+    minimumPayment: calculateLevelPayment(
+      principalAmount,
+      { ...terms, principalAmount },
+      periods
+    ),
+    nextPaymentDueDate,
+    paymentDueDay: parseDateString(nextPaymentDueDate).getUTCDate(),
+  };
+
+  return {
+    payoffAmount,
+    newLoan,
+    cashOut: round(principalAmount - terms.fees - payoffAmount),
+    before: outlookFor(sourceLoans, rateChanges),
+    after: outlookFor([newLoan]),
+  };
+}
+
+/**
+ * Calculate interest charged over one month on a balance, read by the
+ * loan's interest method as a monthly installment would be
+ */
+function monthlyPeriodInterest(balance: number, terms: InterestTerms): number {
+  return calculatePeriodInterest(balance, { ...terms, paymentFrequency: 'monthly' });
+}
+
 /**
  * Calculate payoff date based on payment schedule
  */
 export function calculatePayoffDate(
   balance: number,
   monthlyPayment: number,
-  interestRate: number,
+  terms: InterestTerms,
   startDate: Date
 ): Date {
   if (monthlyPayment <= 0 || balance <= 0) {
     return startDate;
   }
 
-  const monthlyRate = calculateMonthlyRate(interestRate);
-  let currentBalance = balance;
-  let months = 0;
   const maxMonths = 600; // 50 years max
 
-  while (currentBalance > 0.01 && months < maxMonths) {
-    const interest = currentBalance * monthlyRate;
-    const principal = monthlyPayment - interest;
-
-    if (principal <= 0) {
-      // Payment doesn't cover interest, loan will never be paid off
-      return new Date(startDate.getTime() + maxMonths * 30 * 24 * 60 * 60 * 1000);
-    }
-
-    currentBalance = Math.max(0, currentBalance - principal);
-    months++;
+  if (monthlyPayment <= monthlyPeriodInterest(balance, terms)) {
+    // Payment doesn't cover interest, loan will never be paid off
+    return new Date(startDate.getTime() + maxMonths * 30 * 24 * 60 * 60 * 1000);
   }
 
+  const rows = buildAmortizationRows({
+    balance,
+    payment: monthlyPayment,
+    periodInterest: (remaining) => monthlyPeriodInterest(remaining, terms),
+    firstPaymentDate: toDateString(startDate),
+    frequency: 'monthly',
+  });
+
   const payoffDate = new Date(startDate);
-  payoffDate.setMonth(payoffDate.getMonth() + months);
+  payoffDate.setMonth(payoffDate.getMonth() + rows.length);
   return payoffDate;
 }
 
@@ -66,39 +873,90 @@ export function calculatePayoffDate(
 export function calculateTotalInterest(
   balance: number,
   monthlyPayment: number,
-  interestRate: number
+  terms: InterestTerms
 ): number {
   if (monthlyPayment <= 0 || balance <= 0) {
     return 0;
   }
 
-  const monthlyRate = calculateMonthlyRate(interestRate);
-  let currentBalance = balance;
-  let totalInterest = 0;
-  const maxMonths = 600;
+  if (monthlyPayment <= monthlyPeriodInterest(balance, terms)) {
+    return 0;
+  }
 
-  while (currentBalance > 0.01 && totalInterest < balance * 100) {
-    const interest = currentBalance * monthlyRate;
-    const principal = monthlyPayment - interest;
+  const rows = buildAmortizationRows({
+    balance,
+    payment: monthlyPayment,
+    periodInterest: (remaining) => monthlyPeriodInterest(remaining, terms),
+    firstPaymentDate: toDateString(new Date()),
+    frequency: 'monthly',
+  });
+  const totalInterest = rows.reduce((sum, row) => sum + row.interest, 0);
 
-    if (principal <= 0) {
-      break;
-    }
+  return Math.round(totalInterest * 100) / 100;
+}
 
-    totalInterest += interest;
-    currentBalance = Math.max(0, currentBalance - principal);
+/**
+ * Calculate the penalty owed on an overdue installment under a loan's rule:
+ * a fixed amount once overdue, or a percentage of the unpaid amount per day
+ */
+export function calculatePenaltyAmount(
+  rule: Pick<Loan, 'penaltyRuleType' | 'penaltyRate'>,
+  unpaidAmount: number,
+  daysOverdue: number
+): number {
+  const rate = Number(rule.penaltyRate ?? 0);
+  if (!rule.penaltyRuleType || rate <= 0 || daysOverdue <= 0 || unpaidAmount <= 0) {
+    return 0;
   }
 
-  return Math.round(totalInterest * 100) / 100;
+  const penalty =
+    rule.penaltyRuleType === 'fixed'
+      ? rate
+      : (unpaidAmount * rate * daysOverdue) / 100;
+
+  return Math.round(penalty * 100) / 100;
+}
+
+/**
+ * Whether a loan is money owed to us rather than a debt we pay down
+ */
+export function isReceivable(loan: Partial<Pick<Loan, 'direction'>>): boolean {
+  return loan.direction === 'lent';
+}
+
+/**
+ * Whether a loan was closed by paying its balance off, as opposed to being
+ * closed by hand or paid off by a consolidation loan
+ */
+export function wasAutoClosed(
+  loan: Pick<Loan, 'isActive' | 'consolidatedIntoLoanId' | 'currentBalance'>
+): boolean {
+  return (
+    !loan.isActive &&
+    loan.consolidatedIntoLoanId === null &&
+    Number(loan.currentBalance) <= 0.01
+  );
 }
 
 /**
- * Calculate total monthly obligation (sum of all minimum payments)
+ * Check whether a loan is an active debt that payment strategies and the
+ * monthly obligation should cover
+ */
+export function isActiveDebt(
+  loan: Pick<Loan, 'isActive'> & Partial<Pick<Loan, 'direction'>>
+): boolean {
+  return loan.isActive && !isReceivable(loan);
+}
+
+/**
+ * Calculate total monthly obligation (sum of all minimum payments,
+ * normalized to a monthly amount for weekly and bi-weekly loans).
+ * Receivables are inflows, not obligations.
  */
 export function calculateMonthlyObligation(loans: Loan[]): number {
   return loans
-    .filter((loan) => loan.isActive)
-    .reduce((sum, loan) => sum + Number(loan.minimumPayment), 0);
+    .filter(isActiveDebt)
+    .reduce((sum, loan) => sum + calculateMonthlyPaymentAmount(loan), 0);
 }
 
 /**
@@ -112,20 +970,80 @@ export function calculateAvailableExtraFunds(
   return Math.max(0, monthlyAllocation - monthlyObligation);
 }
 
+/**
+ * Rank a loan record for strategy ordering as it stands today
+ */
+export function toStrategyRanking(loan: Loan): StrategyRanking {
+  const balance = Number(loan.currentBalance);
+  return {
+    balance,
+    rate: calculateEffectiveAnnualRate(loan),
+    monthlyInterest: calculateMonthlyInterest(
+      balance - Math.min(balance, Number(loan.outstandingCharges ?? 0)),
+      loan
+    ),
+    minimumPayment: calculateMonthlyPaymentAmount(loan),
+    priorityOrder: loan.priorityOrder ?? 999,
+    sourceType: loan.sourceType,
+  };
+}
+
+/**
+ * Compare two loans under a strategy; loans that sort first get extra
+ * payments first. Snowflake counts the loans closed so far in the plan.
+ */
+export function compareForStrategy(
+  strategyType: StrategyType,
+  a: StrategyRanking,
+  b: StrategyRanking,
+  loansClosed = 0,
+  tuning: StrategyTuning = DEFAULT_STRATEGY_TUNING
+): number {
+  switch (strategyType) {
+    case 'snowball':
+      return a.balance - b.balance;
+    case 'avalanche':
+      return b.rate - a.rate;
+    case 'custom':
+      return a.priorityOrder - b.priorityOrder;
+    case 'interest_cost':
+      return b.monthlyInterest - a.monthlyInterest;
+    case 'cash_flow_index':
+      // Highest payment per peso of balance frees the most cash per peso
+      return (
+        b.minimumPayment / Math.max(b.balance, 0.01) -
+        a.minimumPayment / Math.max(a.balance, 0.01)
+      );
+    case 'snowflake':
+      return compareForStrategy(
+        loansClosed < tuning.snowflakeLoansToClose ? 'snowball' : 'avalanche',
+        a,
+        b
+      );
+    case 'lender_type':
+      return (
+        LENDER_TYPE_PRIORITY.indexOf(a.sourceType) -
+          LENDER_TYPE_PRIORITY.indexOf(b.sourceType) ||
+        compareForStrategy('avalanche', a, b)
+      );
+  }
+}
+
 /**
  * Distribute monthly budget across loans based on strategy
  */
 export function distributeBudgetAcrossLoans(
   loans: Loan[],
   monthlyAllocation: number,
-  strategyType: 'snowball' | 'avalanche' | 'custom' | null
+  strategyType: StrategyType | null,
+  tuning: StrategyTuning = DEFAULT_STRATEGY_TUNING
 ): Record<number, number> {
-  const activeLoans = loans.filter((loan) => loan.isActive);
+  const activeLoans = loans.filter(isActiveDebt);
   const allocations: Record<number, number> = {};
 
   // Start with minimum payments for all loans
   activeLoans.forEach((loan) => {
-    allocations[loan.id] = Number(loan.minimumPayment);
+    allocations[loan.id] = calculateMonthlyPaymentAmount(loan);
   });
 
   const totalMinimumPayments = calculateMonthlyObligation(loans);
@@ -136,23 +1054,10 @@ export function distributeBudgetAcrossLoans(
   }
 
   // Sort loans based on strategy
-  let sortedLoans: Loan[];
-  if (strategyType === 'snowball') {
-    sortedLoans = [...activeLoans].sort(
-      (a, b) => Number(a.currentBalance) - Number(b.currentBalance)
-    );
-  } else if (strategyType === 'avalanche') {
-    sortedLoans = [...activeLoans].sort(
-      (a, b) => Number(b.interestRate) - Number(a.interestRate)
-    );
-  } else {
-    // custom - sort by priority_order
-    sortedLoans = [...activeLoans].sort((a, b) => {
-      const aPriority = a.priorityOrder ?? 999;
-      const bPriority = b.priorityOrder ?? 999;
-      return aPriority - bPriority;
-    });
-  }
+  const sortedLoans = activeLoans
+    .map((loan) => ({ loan, ranking: toStrategyRanking(loan) }))
+    .sort((a, b) => compareForStrategy(strategyType, a.ranking, b.ranking, 0, tuning))
+    .map(({ loan }) => loan);
 
   // Distribute extra funds based on strategy
   // In snowball/avalanche, once a loan is paid off, its payment rolls to the next
@@ -163,10 +1068,9 @@ export function distributeBudgetAcrossLoans(
     const loan = sortedLoans[currentLoanIndex];
     const currentBalance = Number(loan.currentBalance);
     const currentAllocation = allocations[loan.id];
-    const monthlyRate = calculateMonthlyRate(Number(loan.interestRate));
 
     // Calculate interest for this month
-    const interest = currentBalance * monthlyRate;
+    const interest = calculateMonthlyInterest(currentBalance, loan);
     
     // Calculate how much principal we can pay (can't exceed balance)
     // Total payment = interest + principal
@@ -214,48 +1118,119 @@ export function distributeBudgetAcrossLoans(
 
 /**
  * Simulate loan payoff with rollover payments
- * This properly accounts for when loans are paid off and their payments roll to other loans
+ * This properly accounts for when loans are paid off and their payments roll to other loans.
+ * Month 0 is the calendar month of `options.startDate`; windfalls are paid
+ * on top of the budget in their month, in the strategy's loan order.
  */
 function simulateLoanPayoff(
   loans: Loan[],
   monthlyAllocation: number,
-  strategyType: 'snowball' | 'avalanche' | 'custom' | null
+  strategyType: StrategyType | null,
+  options: SimulationOptions = {}
 ): {
   projections: PaymentProjection[];
   totalMonths: number;
   totalInterest: number;
+  timeline: ProjectionMonth[];
 } {
   // Create working copies of loans with current balances
   const workingLoans = loans.map((loan) => ({
     id: loan.id,
     currentBalance: Number(loan.currentBalance),
-    minimumPayment: Number(loan.minimumPayment),
-    interestRate: Number(loan.interestRate),
-    startDate: new Date(loan.startDate),
+    // Fees and penalties are part of the balance but accrue no interest
+    outstandingCharges: Math.min(
+      Number(loan.currentBalance),
+      Number(loan.outstandingCharges ?? 0)
+    ),
+    minimumPayment: calculateMonthlyPaymentAmount(loan),
+    interestTerms: loan,
+    rateChanges: (options.rateChanges ?? []).filter(
+      (change) => change.loanId === loan.id
+    ),
     priorityOrder: loan.priorityOrder ?? 999,
+    sourceType: loan.sourceType,
   }));
 
+  const startDate = options.startDate ?? toDateString(new Date());
+  const calendarStart = parseDateString(startDate);
+  const payoffDateAfter = (months: number) =>
+    parseDateString(addMonthsClamped(startDate, months));
+
+  // Total the windfalls landing in each simulated month
+  const windfallsByMonth: Record<number, number> = {};
+  for (const windfall of options.windfalls ?? []) {
+    const monthIndex = calendarMonthsBetween(startDate, windfall.windfallDate);
+    if (monthIndex >= 0) {
+      windfallsByMonth[monthIndex] =
+        (windfallsByMonth[monthIndex] ?? 0) + Number(windfall.amount);
+    }
+  }
+
+  // The allocation for a month is the latest budget in effect by then
+  const budgetChanges = (options.budgetChanges ?? [])
+    .map((budget) => ({
+      monthIndex: calendarMonthsBetween(startDate, budget.effectiveDate),
+      monthlyAllocation: Number(budget.monthlyAllocation),
+    }))
+    .sort((a, b) => a.monthIndex - b.monthIndex);
+  const allocationFor = (monthIndex: number) =>
+    budgetChanges.reduce(
+      (allocation, budget) =>
+        budget.monthIndex <= monthIndex ? budget.monthlyAllocation : allocation,
+      monthlyAllocation
+    );
+
   const projections: PaymentProjection[] = workingLoans.map((loan) => ({
     loanId: loan.id,
     monthlyPayment: loan.minimumPayment,
     monthsToPayoff: 0,
     totalInterest: 0,
-    payoffDate: loan.startDate,
+    payoffDate: calendarStart,
   }));
 
   let month = 0;
   const maxMonths = 600; // 50 years max
   let totalInterestPaid = 0;
-  const monthlyRateCache: Record<number, number> = {};
+  let freedMinimums = 0;
+  const timeline: ProjectionMonth[] = [];
+  const round = (value: number) => Math.round(value * 100) / 100;
 
-  // Pre-calculate monthly rates
-  workingLoans.forEach((loan) => {
-    monthlyRateCache[loan.id] = calculateMonthlyRate(loan.interestRate);
-  });
+  // Interest for the month honors each loan's interest method and the
+  // rate in effect when the month opens
+  const monthlyInterestFor = (loan: (typeof workingLoans)[number]) =>
+    calculateMonthlyInterest(loan.currentBalance - loan.outstandingCharges, {
+      ...loan.interestTerms,
+      interestRate:
+        loan.rateChanges.length > 0
+          ? getInterestRateOn(
+            loan.interestTerms,
+            loan.rateChanges,
+            addMonthsClamped(startDate, month)
+          )
+          : loan.interestTerms.interestRate,
+    });
 
   while (workingLoans.length > 0 && month < maxMonths) {
+    // Balance-based minimums are billed each installment on the balance plus
+    // that installment's share of the month's interest, so they shrink as
+    // the balance drops
+    workingLoans.forEach((loan) => {
+      if (hasBalanceBasedMinimum(loan.interestTerms)) {
+        const paymentsPerMonth = getPaymentsPerMonth(
+          loan.interestTerms.paymentFrequency
+        );
+        const interest = monthlyInterestFor(loan) / paymentsPerMonth;
+        loan.minimumPayment =
+          calculateMinimumPaymentDue(
+            loan.interestTerms,
+            loan.currentBalance + interest,
+            interest
+          ) * paymentsPerMonth;
+      }
+    });
+
     // Determine how to allocate payments this month
-    let availableFunds = monthlyAllocation;
+    let availableFunds = allocationFor(month);
     const paymentsThisMonth: Record<number, number> = {};
 
     // Start with minimum payments for all active loans
@@ -264,25 +1239,42 @@ function simulateLoanPayoff(
       availableFunds -= loan.minimumPayment;
     });
 
-    // If we have extra funds and a strategy, distribute them
-    if (availableFunds > 0.01 && strategyType) {
-      // Sort loans based on strategy
-      let sortedLoans = [...workingLoans];
-      if (strategyType === 'snowball') {
-        sortedLoans.sort((a, b) => a.currentBalance - b.currentBalance);
-      } else if (strategyType === 'avalanche') {
-        sortedLoans.sort((a, b) => b.interestRate - a.interestRate);
-      } else {
-        // custom - sort by priority_order
-        sortedLoans.sort((a, b) => a.priorityOrder - b.priorityOrder);
-      }
+    // Budget left over goes out by strategy; windfalls go out either way
+    availableFunds =
+      (strategyType ? Math.max(0, availableFunds) : 0) +
+      (windfallsByMonth[month] ?? 0);
+
+    // If we have extra funds, distribute them
+    if (availableFunds > 0.01) {
+      // Sort loans based on strategy. Avalanche compares the interest cost
+      // per peso of balance so frequency compounding and flat-rate loans
+      // rank correctly
+      const rankingFor = (loan: (typeof workingLoans)[number]): StrategyRanking => ({
+        balance: loan.currentBalance,
+        rate: monthlyInterestFor(loan) / loan.currentBalance,
+        monthlyInterest: monthlyInterestFor(loan),
+        minimumPayment: loan.minimumPayment,
+        priorityOrder: loan.priorityOrder,
+        sourceType: loan.sourceType,
+      });
+      const loansClosed = loans.length - workingLoans.length;
+      const sortedLoans = strategyType
+        ? [...workingLoans].sort((a, b) =>
+          compareForStrategy(
+            strategyType,
+            rankingFor(a),
+            rankingFor(b),
+            loansClosed,
+            options.strategyTuning
+          )
+        )
+        : [...workingLoans];
 
       // Distribute extra funds
       for (const loan of sortedLoans) {
         if (availableFunds <= 0.01) break;
 
-        const monthlyRate = monthlyRateCache[loan.id];
-        const interest = loan.currentBalance * monthlyRate;
+        const interest = monthlyInterestFor(loan);
         const currentPayment = paymentsThisMonth[loan.id];
         const currentPrincipal = Math.max(0, currentPayment - interest);
         const maxPrincipal = loan.currentBalance;
@@ -298,15 +1290,17 @@ function simulateLoanPayoff(
 
     // Apply payments and interest for this month
     const paidOffLoans: number[] = [];
+    const loanMonths: ProjectionLoanMonth[] = [];
 
     for (const loan of workingLoans) {
       const payment = paymentsThisMonth[loan.id] || 0;
-      const monthlyRate = monthlyRateCache[loan.id];
-      const interest = loan.currentBalance * monthlyRate;
+      const interest = monthlyInterestFor(loan);
       const principal = Math.min(loan.currentBalance, Math.max(0, payment - interest));
 
       totalInterestPaid += interest;
       loan.currentBalance = Math.max(0, loan.currentBalance - principal);
+      // Payments settle outstanding charges before principal
+      loan.outstandingCharges = Math.max(0, loan.outstandingCharges - principal);
 
       // Update projection totals
       const projection = projections.find((p) => p.loanId === loan.id);
@@ -315,17 +1309,36 @@ function simulateLoanPayoff(
         projection.monthlyPayment = Math.max(projection.monthlyPayment, payment);
       }
 
+      loanMonths.push({
+        loanId: loan.id,
+        payment: round(Math.min(payment, interest + principal)),
+        interest: round(interest),
+        balance: round(loan.currentBalance),
+      });
+
       // Check if loan is paid off
       if (loan.currentBalance <= 0.01) {
         paidOffLoans.push(loan.id);
         if (projection) {
           projection.monthsToPayoff = month + 1;
-          projection.payoffDate = new Date(loan.startDate);
-          projection.payoffDate.setMonth(projection.payoffDate.getMonth() + month + 1);
+          projection.payoffDate = payoffDateAfter(month + 1);
         }
       }
     }
 
+    timeline.push({
+      month,
+      date: addMonthsClamped(startDate, month),
+      loans: loanMonths,
+      totalBalance: round(loanMonths.reduce((sum, loan) => sum + loan.balance, 0)),
+      // Without a strategy the freed payments aren't spent elsewhere
+      rollover: strategyType ? round(freedMinimums) : 0,
+      windfall: round(windfallsByMonth[month] ?? 0),
+    });
+    freedMinimums += workingLoans
+      .filter((loan) => paidOffLoans.includes(loan.id))
+      .reduce((sum, loan) => sum + loan.minimumPayment, 0);
+
     // Remove paid off loans (their payments will naturally roll to remaining loans)
     workingLoans.splice(0, workingLoans.length, ...workingLoans.filter(
       (loan) => !paidOffLoans.includes(loan.id)
@@ -339,8 +1352,7 @@ function simulateLoanPayoff(
     const projection = projections.find((p) => p.loanId === loan.id);
     if (projection && projection.monthsToPayoff === 0) {
       projection.monthsToPayoff = month;
-      projection.payoffDate = new Date(loan.startDate);
-      projection.payoffDate.setMonth(projection.payoffDate.getMonth() + month);
+      projection.payoffDate = payoffDateAfter(month);
     }
   });
 
@@ -350,18 +1362,22 @@ function simulateLoanPayoff(
     projections,
     totalMonths,
     totalInterest: Math.round(totalInterestPaid * 100) / 100,
+    timeline,
   };
 }
 
 /**
- * Calculate strategy projections
+ * Calculate strategy projections. Planned windfalls and scheduled budget
+ * changes are applied to the strategy scenario only, and each windfall's
+ * savings are measured on its own against the strategy without any.
  */
 export function calculateStrategyProjections(
   loans: Loan[],
-  monthlyBudget: MonthlyBudget | null,
-  strategyType: 'snowball' | 'avalanche' | 'custom' | null
+  monthlyBudget: Pick<MonthlyBudget, 'monthlyAllocation'> | null,
+  strategyType: StrategyType | null,
+  options: ProjectionOptions = {}
 ): StrategyProjection {
-  const activeLoans = loans.filter((loan) => loan.isActive);
+  const activeLoans = loans.filter(isActiveDebt);
   const monthlyObligation = calculateMonthlyObligation(activeLoans);
   const monthlyAllocation = monthlyBudget
     ? Number(monthlyBudget.monthlyAllocation)
@@ -372,25 +1388,62 @@ export function calculateStrategyProjections(
   const minPaymentSimulation = simulateLoanPayoff(
     activeLoans,
     monthlyObligation, // Always use minimum payments only
-    null // No strategy for minimum payment scenario
+    null, // No strategy for minimum payment scenario
+    { startDate: options.startDate, rateChanges: options.rateChanges }
   );
 
   // Calculate strategy scenario (uses budget if available)
-  const strategySimulation = strategyType
-    ? simulateLoanPayoff(activeLoans, monthlyAllocation, strategyType)
+  const strategyAllocation = strategyType ? monthlyAllocation : monthlyObligation;
+  const windfalls = options.windfalls ?? [];
+  // Without a strategy the budget isn't spent, so budget changes don't apply
+  const planOptions: SimulationOptions = {
+    startDate: options.startDate,
+    strategyTuning: options.strategyTuning,
+    budgetChanges: strategyType ? options.budgetChanges : undefined,
+    rateChanges: options.rateChanges,
+  };
+  const withoutWindfalls = strategyType
+    ? simulateLoanPayoff(activeLoans, strategyAllocation, strategyType, planOptions)
     : minPaymentSimulation;
+  const strategySimulation =
+    windfalls.length > 0
+      ? simulateLoanPayoff(activeLoans, strategyAllocation, strategyType, {
+        ...planOptions,
+        windfalls,
+      })
+      : withoutWindfalls;
+
+  const windfallImpacts: WindfallImpact[] = windfalls.map((windfall) => {
+    const simulation = simulateLoanPayoff(
+      activeLoans,
+      strategyAllocation,
+      strategyType,
+      { ...planOptions, windfalls: [windfall] }
+    );
+    return {
+      windfallId: windfall.id,
+      interestSaved:
+        Math.round((withoutWindfalls.totalInterest - simulation.totalInterest) * 100) / 100,
+      monthsSaved: withoutWindfalls.totalMonths - simulation.totalMonths,
+    };
+  });
 
   // Calculate allocations for display (initial allocation, not accounting for rollover)
   const allocations = distributeBudgetAcrossLoans(
-    activeLoans,
+    applyRatesOn(
+      activeLoans,
+      options.rateChanges ?? [],
+      options.startDate ?? toDateString(new Date())
+    ),
     monthlyAllocation,
-    strategyType
+    strategyType,
+    options.strategyTuning
   );
 
   const extraPaymentAllocations: Record<number, number> = {};
   activeLoans.forEach((loan) => {
-    const allocation = allocations[loan.id] || Number(loan.minimumPayment);
-    const minimum = Number(loan.minimumPayment);
+    const minimum = calculateMonthlyPaymentAmount(loan);
+    const allocation = allocations[loan.id] || minimum;
     const extra = allocation - minimum;
     // Use a more lenient threshold to account for floating point precision
     if (extra > 0.001) {
@@ -402,9 +1455,139 @@ export function calculateStrategyProjections(
     loans: strategySimulation.projections,
     totalMonths: strategySimulation.totalMonths,
     totalInterest: strategySimulation.totalInterest,
-    interestSavings: minPaymentSimulation.totalInterest - strategySimulation.totalInterest,
-    timeSavings: minPaymentSimulation.totalMonths - strategySimulation.totalMonths,
+    // The strategy's own savings; windfalls are reported in windfallImpacts
+    interestSavings: minPaymentSimulation.totalInterest - withoutWindfalls.totalInterest,
+    timeSavings: minPaymentSimulation.totalMonths - withoutWindfalls.totalMonths,
     extraPaymentAllocations,
+    windfallImpacts,
+    ...(options.includeTimeline ? { timeline: strategySimulation.timeline } : {}),
   };
 }
 
+/**
+ * Summarize a strategy projection for side-by-side comparison: total
+ * interest, debt-free date, first payoff and loans closed within a year
+ */
+export function summarizeStrategyProjection(
+  name: string,
+  strategyType: StrategyType | null,
+  projection: StrategyProjection
+): StrategyComparison {
+  const payoffs = [...projection.loans].sort(
+    (a, b) => a.monthsToPayoff - b.monthsToPayoff
+  );
+
+  return {
+    name,
+    strategyType,
+    totalInterest: projection.totalInterest,
+    totalMonths: projection.totalMonths,
+    debtFreeDate: payoffs.length > 0 ? payoffs[payoffs.length - 1].payoffDate : null,
+    firstPayoffDate: payoffs.length > 0 ? payoffs[0].payoffDate : null,
+    loansClosedIn12Months: payoffs.filter((loan) => loan.monthsToPayoff <= 12).length,
+  };
+}
+
+/**
+ * Run the minimum-only scenario and every payment strategy against the same
+ * loans, budget and plans. The minimum-only baseline leaves windfalls out,
+ * as the projections panel does.
+ */
+export function compareStrategies(
+  loans: Loan[],
+  monthlyBudget: Pick<MonthlyBudget, 'monthlyAllocation'> | null,
+  options: SimulationOptions = {}
+): StrategyComparison[] {
+  const strategies: (StrategyType | null)[] = [
+    null,
+    ...(Object.keys(STRATEGY_LABELS) as StrategyType[]),
+  ];
+
+  return strategies.map((strategyType) =>
+    summarizeStrategyProjection(
+      strategyType ? STRATEGY_LABELS[strategyType] : 'Minimum Payments Only',
+      strategyType,
+      calculateStrategyProjections(
+        loans,
+        monthlyBudget,
+        strategyType,
+        strategyType ? options : { ...options, windfalls: undefined }
+      )
+    )
+  );
+}
+
+/**
+ * Goal-seek the smallest monthly budget that pays off every loan (or the
+ * goal's loan) by the target date under a strategy. The payoff month only
+ * moves earlier as the budget grows, so a binary search over budgets between
+ * the minimum payments and clearing everything at once finds it.
+ */
+export function calculateRequiredBudget(
+  loans: Loan[],
+  strategyType: StrategyType,
+  goal: BudgetGoal,
+  options: SimulationOptions = {}
+): BudgetGoalResult {
+  const activeLoans = loans.filter(isActiveDebt);
+  const monthlyObligation = calculateMonthlyObligation(activeLoans);
+  const planOptions: SimulationOptions = {
+    ...options,
+    startDate: options.startDate ?? toDateString(new Date()),
+    budgetChanges: undefined,
+  };
+
+  const payoffWith = (allocation: number): Date | null => {
+    const { projections } = simulateLoanPayoff(
+      activeLoans,
+      allocation,
+      strategyType,
+      planOptions
+    );
+    const targets = goal.loanId
+      ? projections.filter((loan) => loan.loanId === goal.loanId)
+      : projections;
+    return targets.reduce<Date | null>(
+      (latest, loan) => (!latest || loan.payoffDate > latest ? loan.payoffDate : latest),
+      null
+    );
+  };
+  const meetsGoal = (allocation: number) => {
+    const payoffDate = payoffWith(allocation);
+    return payoffDate !== null && toDateString(payoffDate) <= goal.targetDate;
+  };
+
+  if (activeLoans.length === 0) {
+    return { requiredAllocation: 0, monthlyObligation, payoffDate: null };
+  }
+
+  // The minimum payments themselves, never rounded below what is owed
+  const minimumAllocation = Math.ceil(monthlyObligation * 100) / 100;
+  if (meetsGoal(minimumAllocation)) {
+    return {
+      requiredAllocation: minimumAllocation,
+      monthlyObligation,
+      payoffDate: payoffWith(minimumAllocation),
+    };
+  }
+
+  let low = Math.floor(monthlyObligation);
+
+  // Enough to clear every balance plus a month's interest in the first month
+  const totalBalance = activeLoans.reduce((sum, loan) => sum + Number(loan.currentBalance), 0);
+  let high = Math.ceil(monthlyObligation + totalBalance * 1.1) + 1;
+  if (!meetsGoal(high)) {
+    return { requiredAllocation: null, monthlyObligation, payoffDate: null };
+  }
+
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (meetsGoal(middle)) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+
+  return { requiredAllocation: high, monthlyObligation, payoffDate: payoffWith(high) };
+}
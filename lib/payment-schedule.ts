@@ -0,0 +1,154 @@
+import type { Loan } from './db/schema';
+
+export type PaymentFrequency = Loan['paymentFrequency'];
+
+export interface ScheduledInstallment {
+  dueDate: string;
+  amountDue: number;
+}
+
+/**
+ * Format a Date as a YYYY-MM-DD string (matches the `date` columns)
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC date so day math is timezone-safe
+ */
+export function parseDateString(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Add months to a date, clamping to the last day of the target month
+ * (e.g. Jan 31 + 1 month = Feb 28/29). Pass `dayOfMonth` to land on a
+ * preferred day instead of the starting date's day, so a loan due on the
+ * 31st returns to the 31st after a short month.
+ */
+export function addMonthsClamped(
+  value: string,
+  months: number,
+  dayOfMonth?: number
+): string {
+  const date = parseDateString(value);
+  const targetMonth = date.getUTCMonth() + months;
+  const lastDayOfTarget = new Date(
+    Date.UTC(date.getUTCFullYear(), targetMonth + 1, 0)
+  ).getUTCDate();
+  const day = Math.min(dayOfMonth ?? date.getUTCDate(), lastDayOfTarget);
+  return toDateString(
+    new Date(Date.UTC(date.getUTCFullYear(), targetMonth, day))
+  );
+}
+
+/**
+ * Add days to a date
+ */
+export function addDays(value: string, days: number): string {
+  const date = parseDateString(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+}
+
+/**
+ * Whole days from one date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round(
+    (parseDateString(to).getTime() - parseDateString(from).getTime()) / msPerDay
+  );
+}
+
+/**
+ * Calendar months from one date's month to another's, ignoring the day
+ * (e.g. Jan 31 to Feb 1 is 1)
+ */
+export function calendarMonthsBetween(from: string, to: string): number {
+  const start = parseDateString(from);
+  const end = parseDateString(to);
+  return (
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    (end.getUTCMonth() - start.getUTCMonth())
+  );
+}
+
+/**
+ * Whole months from one date to another, counting a partial month as a
+ * full one
+ */
+export function monthsBetween(from: string, to: string): number {
+  const months = calendarMonthsBetween(from, to);
+  return addMonthsClamped(from, months) < to ? months + 1 : months;
+}
+
+/**
+ * Number of installments per year for a payment frequency
+ */
+export function getPaymentsPerYear(frequency: PaymentFrequency): number {
+  switch (frequency) {
+    case 'weekly':
+      return 52;
+    case 'bi_weekly':
+      return 26;
+    default:
+      return 12;
+  }
+}
+
+/**
+ * Get the due date that is `periods` installments after an anchor due date.
+ * Always offsets from the anchor so month-end dates don't drift; monthly
+ * loans land on `dueDay` when given.
+ */
+export function addPaymentPeriods(
+  anchorDate: string,
+  frequency: PaymentFrequency,
+  periods: number,
+  dueDay?: number | null
+): string {
+  if (periods === 0) {
+    return anchorDate;
+  }
+  switch (frequency) {
+    case 'weekly':
+      return addDays(anchorDate, periods * 7);
+    case 'bi_weekly':
+      return addDays(anchorDate, periods * 14);
+    default:
+      return addMonthsClamped(anchorDate, periods, dueDay ?? undefined);
+  }
+}
+
+/**
+ * Get the closing date of the statement billed on a due date: the last
+ * statement day before it
+ */
+export function getStatementDate(dueDate: string, statementDay: number): string {
+  const sameMonth = addMonthsClamped(dueDate, 0, statementDay);
+  return sameMonth < dueDate
+    ? sameMonth
+    : addMonthsClamped(dueDate, -1, statementDay);
+}
+
+/**
+ * Day of the month a loan's monthly installments fall on, falling back to
+ * the day of its next due date
+ */
+export function getPaymentDueDay(
+  loan: Pick<Loan, 'paymentDueDay' | 'nextPaymentDueDate'>
+): number {
+  return loan.paymentDueDay ?? parseDateString(loan.nextPaymentDueDate).getUTCDate();
+}
+
+/**
+ * Calculate the date the loan term ends
+ */
+export function calculateMaturityDate(
+  loan: Pick<Loan, 'startDate' | 'loanTermMonths'>
+): string {
+  return addMonthsClamped(loan.startDate, loan.loanTermMonths);
+}
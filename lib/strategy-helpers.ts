@@ -1,4 +1,13 @@
 import type { Loan } from './db/schema';
+import {
+  calculateEffectiveAnnualRate,
+  compareForStrategy,
+  DEFAULT_STRATEGY_TUNING,
+  isActiveDebt,
+  toStrategyRanking,
+  type StrategyTuning,
+  type StrategyType,
+} from './loan-calculations';
 
 /**
  * Sort loans by snowball method (smallest balance first)
@@ -10,11 +19,11 @@ export function sortBySnowball(loans: Loan[]): Loan[] {
 }
 
 /**
- * Sort loans by avalanche method (highest interest rate first)
+ * Sort loans by avalanche method (highest effective interest rate first)
  */
 export function sortByAvalanche(loans: Loan[]): Loan[] {
   return [...loans].sort(
-    (a, b) => Number(b.interestRate) - Number(a.interestRate)
+    (a, b) => calculateEffectiveAnnualRate(b) - calculateEffectiveAnnualRate(a)
   );
 }
 
@@ -30,13 +39,29 @@ export function sortByCustom(loans: Loan[]): Loan[] {
 }
 
 /**
- * Apply strategy and return sorted loans
+ * Sort loans by a ranked strategy (interest cost, cash-flow index,
+ * snowflake or lender type). No loans have closed yet at the plan's start.
+ */
+export function sortByRanking(
+  loans: Loan[],
+  strategyType: StrategyType,
+  tuning: StrategyTuning = DEFAULT_STRATEGY_TUNING
+): Loan[] {
+  return loans
+    .map((loan) => ({ loan, ranking: toStrategyRanking(loan) }))
+    .sort((a, b) => compareForStrategy(strategyType, a.ranking, b.ranking, 0, tuning))
+    .map(({ loan }) => loan);
+}
+
+/**
+ * Apply strategy and return sorted loans. Receivables are left out.
  */
 export function applyStrategy(
   loans: Loan[],
-  strategyType: 'snowball' | 'avalanche' | 'custom' | null
+  strategyType: StrategyType | null,
+  tuning: StrategyTuning = DEFAULT_STRATEGY_TUNING
 ): Loan[] {
-  const activeLoans = loans.filter((loan) => loan.isActive);
+  const activeLoans = loans.filter(isActiveDebt);
 
   if (!strategyType) {
     return activeLoans;
@@ -50,7 +75,6 @@ export function applyStrategy(
     case 'custom':
       return sortByCustom(activeLoans);
     default:
-      return activeLoans;
+      return sortByRanking(activeLoans, strategyType, tuning);
   }
 }
-
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const chargeSchema = z.object({
+  chargeType: z.enum([
+    'late_fee',
+    'processing_fee',
+    'insurance',
+    'penalty_interest',
+    'other',
+    'purchase',
+  ]),
+  amount: z
+    .number()
+    .positive('Charge amount must be positive')
+    .finite(),
+  chargeDate: z.string().date('Invalid date format'),
+  description: z.string().optional().nullable(),
+});
+
+export const createChargeSchema = chargeSchema;
+
+export const updateChargeSchema = chargeSchema.partial();
+
+export type ChargeInput = z.infer<typeof chargeSchema>;
+export type CreateChargeInput = z.infer<typeof createChargeSchema>;
+export type UpdateChargeInput = z.infer<typeof updateChargeSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { loanSchema } from './loan-schema';
+
+export const consolidationSchema = z.object({
+  sourceLoanIds: z
+    .array(z.number().int().positive())
+    .min(1, 'Pick at least one loan to consolidate'),
+  sourceType: loanSchema.shape.sourceType,
+  lenderName: loanSchema.shape.lenderName,
+  accountNumber: loanSchema.shape.accountNumber,
+  interestRate: loanSchema.shape.interestRate,
+  interestMethod: z.enum(['diminishing', 'add_on', 'zero_interest', 'simple']),
+  loanTermMonths: loanSchema.shape.loanTermMonths,
+  paymentFrequency: loanSchema.shape.paymentFrequency,
+  startDate: z.string().date('Invalid date format'),
+  fees: z
+    .number()
+    .nonnegative('Fees cannot be negative')
+    .finite(),
+  principalAmount: z
+    .number()
+    .positive('Principal amount must be positive')
+    .finite()
+    .optional()
+    .nullable(),
+});
+
+export type ConsolidationInput = z.infer<typeof consolidationSchema>;
@@ -1,7 +1,19 @@
 import { z } from 'zod';
 
+// A scheduled change to a loan's rate, such as a promo rate running out
+export const rateChangeSchema = z.object({
+  effectiveDate: z.string().date('Invalid date format'),
+  interestRate: z
+    .number()
+    .nonnegative('Interest rate cannot be negative')
+    .max(100, 'Interest rate cannot exceed 100%')
+    .finite(),
+});
+
 export const loanSchema = z.object({
   sourceType: z.enum(['bank', 'mobile_app', 'person']),
+  accountType: z.enum(['installment', 'revolving']).optional(),
+  direction: z.enum(['borrowed', 'lent']).optional(),
   lenderName: z.string().min(1, 'Lender name is required').max(255),
   accountNumber: z.string().max(100).optional().nullable(),
   principalAmount: z
@@ -17,6 +29,9 @@ export const loanSchema = z.object({
     .nonnegative('Interest rate cannot be negative')
     .max(100, 'Interest rate cannot exceed 100%')
     .finite(),
+  interestMethod: z
+    .enum(['diminishing', 'add_on', 'zero_interest', 'simple'])
+    .optional(),
   loanTermMonths: z
     .number()
     .int('Loan term must be an integer')
@@ -28,16 +43,110 @@ export const loanSchema = z.object({
     .positive('Minimum payment must be positive')
     .finite(),
   nextPaymentDueDate: z.string().date('Invalid date format'),
+  paymentDueDay: z
+    .number()
+    .int()
+    .min(1, 'Due day must be between 1 and 31')
+    .max(31, 'Due day must be between 1 and 31')
+    .optional()
+    .nullable(),
+  creditLimit: z
+    .number()
+    .positive('Credit limit must be positive')
+    .finite()
+    .optional()
+    .nullable(),
+  statementDay: z
+    .number()
+    .int()
+    .min(1, 'Statement day must be between 1 and 31')
+    .max(31, 'Statement day must be between 1 and 31')
+    .optional()
+    .nullable(),
+  minimumPaymentRule: z
+    .enum(['fixed', 'percent_of_balance', 'interest_plus_percent'])
+    .optional(),
+  minimumPaymentPercent: z
+    .number()
+    .nonnegative('Minimum payment percentage cannot be negative')
+    .max(100, 'Minimum payment percentage cannot exceed 100%')
+    .finite()
+    .optional()
+    .nullable(),
+  minimumPaymentFloor: z
+    .number()
+    .nonnegative('Minimum payment floor cannot be negative')
+    .finite()
+    .optional()
+    .nullable(),
   paymentStatus: z.enum(['current', 'upcoming', 'overdue']),
-  strategyType: z.enum(['snowball', 'avalanche', 'custom']).optional().nullable(),
+  strategyType: z
+    .enum([
+      'snowball',
+      'avalanche',
+      'custom',
+      'interest_cost',
+      'cash_flow_index',
+      'snowflake',
+      'lender_type',
+    ])
+    .optional()
+    .nullable(),
   priorityOrder: z.number().int().positive().optional().nullable(),
+  penaltyRuleType: z.enum(['fixed', 'percent_per_day']).optional().nullable(),
+  penaltyRate: z
+    .number()
+    .nonnegative('Penalty rate cannot be negative')
+    .finite()
+    .optional()
+    .nullable(),
   isActive: z.boolean(),
+  rateChanges: z.array(rateChangeSchema).optional(),
 });
 
-export const createLoanSchema = loanSchema;
+/**
+ * Check that a balance-based minimum has a percentage or a floor to bill.
+ * A missing rule defaults by account type, as it does when a loan is created.
+ */
+function hasMinimumPaymentBasis(terms: {
+  accountType?: 'installment' | 'revolving';
+  minimumPaymentRule?: 'fixed' | 'percent_of_balance' | 'interest_plus_percent';
+  minimumPaymentPercent?: number | null;
+  minimumPaymentFloor?: number | null;
+}): boolean {
+  const rule =
+    terms.minimumPaymentRule ??
+    (terms.accountType === 'revolving' ? 'percent_of_balance' : 'fixed');
+  return (
+    rule === 'fixed' ||
+    (terms.minimumPaymentPercent ?? 0) > 0 ||
+    (terms.minimumPaymentFloor ?? 0) > 0
+  );
+}
+
+const minimumPaymentBasisError = {
+  message: 'A balance-based minimum needs a percentage or a floor',
+  path: ['minimumPaymentPercent'],
+};
+
+export const createLoanSchema = loanSchema.refine(
+  hasMinimumPaymentBasis,
+  minimumPaymentBasisError
+);
+
+// A loan's minimum payment terms after an update merges them with the saved ones
+export const minimumPaymentTermsSchema = loanSchema
+  .pick({
+    accountType: true,
+    minimumPaymentRule: true,
+    minimumPaymentPercent: true,
+    minimumPaymentFloor: true,
+  })
+  .refine(hasMinimumPaymentBasis, minimumPaymentBasisError);
 
 export const updateLoanSchema = loanSchema.partial();
 
+export type RateChangeInput = z.infer<typeof rateChangeSchema>;
 export type LoanInput = z.infer<typeof loanSchema>;
 export type CreateLoanInput = z.infer<typeof createLoanSchema>;
 export type UpdateLoanInput = z.infer<typeof updateLoanSchema>;
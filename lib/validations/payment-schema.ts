@@ -14,7 +14,7 @@ export const paymentSchema = z.object({
     .optional()
     .nullable(),
   status: z
-    .enum(['pending', 'paid', 'overdue', 'missed'])
+    .enum(['pending', 'paid', 'overdue', 'missed', 'partial'])
     .optional()
     .default('pending'),
   paidDate: z.string().date('Invalid date format').optional().nullable(),
@@ -22,9 +22,36 @@ export const paymentSchema = z.object({
 
 export const createPaymentSchema = paymentSchema;
 
+export const paymentMethodSchema = z.enum([
+  'bank_transfer',
+  'gcash',
+  'maya',
+  'cash',
+  'other',
+]);
+
+// Paying part, all or more than an installment
+export const recordPaymentSchema = z.object({
+  amount: z
+    .number()
+    .positive('Payment amount must be positive')
+    .finite(),
+  paidDate: z.string().date('Invalid date format').optional(),
+  // What to do with money beyond the amount due: prepay principal now or
+  // pay future installments in advance
+  overpayment: z.enum(['principal', 'advance']).optional(),
+  // Close a short installment and move the remainder onto the next one
+  carryOver: z.boolean().optional(),
+  method: paymentMethodSchema.optional(),
+  referenceNumber: z.string().max(100).optional().nullable(),
+  note: z.string().optional().nullable(),
+});
+
 export const updatePaymentSchema = paymentSchema.partial();
 
 export type PaymentInput = z.infer<typeof paymentSchema>;
 export type CreatePaymentInput = z.infer<typeof createPaymentSchema>;
 export type UpdatePaymentInput = z.infer<typeof updatePaymentSchema>;
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+export type RecordPaymentInput = z.infer<typeof recordPaymentSchema>;
 
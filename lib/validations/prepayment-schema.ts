@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+export const prepaymentSchema = z.object({
+  amount: z
+    .number()
+    .positive('Prepayment amount must be positive')
+    .finite(),
+  prepaymentDate: z.string().date('Invalid date format').optional(),
+  // recast: keep the term and lower the installment;
+  // shorten_term: keep the installment and finish earlier
+  mode: z.enum(['recast', 'shorten_term']),
+  note: z.string().optional().nullable(),
+});
+
+export type PrepaymentInput = z.infer<typeof prepaymentSchema>;
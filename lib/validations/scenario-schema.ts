@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { loanSchema } from './loan-schema';
+
+export const scenarioSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().optional().nullable(),
+  strategyType: loanSchema.shape.strategyType,
+  monthlyAllocation: z
+    .number()
+    .positive('Monthly allocation must be positive')
+    .finite()
+    .optional()
+    .nullable(),
+});
+
+export const createScenarioSchema = scenarioSchema;
+
+export const updateScenarioSchema = scenarioSchema.partial();
+
+// A scenario's copy of a loan carries only what the simulation reads
+export const scenarioLoanSchema = loanSchema.pick({
+  sourceType: true,
+  accountType: true,
+  lenderName: true,
+  principalAmount: true,
+  currentBalance: true,
+  interestRate: true,
+  interestMethod: true,
+  loanTermMonths: true,
+  startDate: true,
+  paymentFrequency: true,
+  minimumPayment: true,
+  minimumPaymentRule: true,
+  minimumPaymentPercent: true,
+  minimumPaymentFloor: true,
+  priorityOrder: true,
+});
+
+export const createScenarioLoanSchema = scenarioLoanSchema;
+
+export const updateScenarioLoanSchema = scenarioLoanSchema.partial();
+
+export type ScenarioInput = z.infer<typeof scenarioSchema>;
+export type CreateScenarioInput = z.infer<typeof createScenarioSchema>;
+export type UpdateScenarioInput = z.infer<typeof updateScenarioSchema>;
+export type ScenarioLoanInput = z.infer<typeof scenarioLoanSchema>;
+export type CreateScenarioLoanInput = z.infer<typeof createScenarioLoanSchema>;
+export type UpdateScenarioLoanInput = z.infer<typeof updateScenarioLoanSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const windfallSchema = z.object({
+  description: z.string().min(1, 'Description is required').max(255),
+  amount: z
+    .number()
+    .positive('Windfall amount must be positive')
+    .finite(),
+  windfallDate: z.string().date('Invalid date format'),
+});
+
+export const createWindfallSchema = windfallSchema;
+
+export const updateWindfallSchema = windfallSchema.partial();
+
+export type WindfallInput = z.infer<typeof windfallSchema>;
+export type CreateWindfallInput = z.infer<typeof createWindfallSchema>;
+export type UpdateWindfallInput = z.infer<typeof updateWindfallSchema>;